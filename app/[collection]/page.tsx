@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import Header from '../components/Header/Header';
+import ProductCatalog from '../components/Product/ProductCatalog';
+
+interface Category {
+  id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  parentId?: number;
+}
+
+// Storefront page for a single category, e.g. /men or /women-tops
+export default function CollectionPage() {
+  const { collection: slug } = useParams<{ collection: string }>();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Category`);
+        if (response.ok) {
+          const data = await response.json();
+          setCategories(data);
+        } else {
+          console.error('Failed to fetch categories:', response.status);
+        }
+      } catch (error) {
+        console.error('Error fetching categories:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCategories();
+  }, []);
+
+  const collection = categories.find(category => category.slug === slug);
+
+  if (isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-500">Loading collection...</p>
+        </div>
+      </>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <>
+        <Header />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Collection not found</h1>
+          <p className="text-gray-600 mb-6">We couldn&apos;t find the collection you were looking for.</p>
+          <Link
+            href="/products"
+            className="inline-block bg-blue-600 text-white px-6 py-3 rounded-md font-medium hover:bg-blue-700 transition-colors"
+          >
+            Browse All Products
+          </Link>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <ProductCatalog
+      key={collection.slug}
+      title={collection.name}
+      subtitle={collection.description ?? `Shop our ${collection.name} collection`}
+      category={collection.slug}
+      subcategories={categories.filter(category => category.parentId === collection.id)}
+    />
+  );
+}
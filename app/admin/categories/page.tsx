@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Toast from '../../components/UI/Toast';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface Category {
+  id: number;
+  name: string;
+  slug: string;
+  description?: string;
+  parentId?: number;
+}
+
+interface CategoryForm {
+  name: string;
+  slug: string;
+  description: string;
+  parentId: string;
+}
+
+const EMPTY_FORM: CategoryForm = { name: '', slug: '', description: '', parentId: '' };
+
+export default function AdminCategoriesPage() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+
+  const { token } = useAuth();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Category`);
+      if (response.ok) {
+        const data = await response.json();
+        setCategories(data);
+      } else {
+        console.error('Failed to fetch categories:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Category`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          name: form.name,
+          // Leave the slug out to have it derived from the name
+          slug: form.slug || undefined,
+          description: form.description || undefined,
+          parentId: form.parentId ? Number(form.parentId) : undefined,
+        }),
+      });
+
+      if (response.ok) {
+        showToast('Category added successfully!', 'success');
+        setForm(EMPTY_FORM);
+        fetchCategories();
+      } else {
+        const errorData = await response.json().catch(() => null);
+        showToast(errorData?.error ?? 'Failed to add category', 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Delete "${category.name}"? Products in it will stay in the catalog.`)) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Category/${category.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        showToast('Category deleted successfully!', 'success');
+        fetchCategories();
+      } else {
+        const errorData = await response.json().catch(() => null);
+        showToast(errorData?.error ?? 'Failed to delete category', 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    }
+  };
+
+  // Flatten the tree depth-first so children render indented under their parent
+  const flatten = (parentId?: number, depth = 0): { category: Category; depth: number }[] =>
+    categories
+      .filter(category => category.parentId === parentId)
+      .flatMap(category => [{ category, depth }, ...flatten(category.id, depth + 1)]);
+
+  const rows = flatten();
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">Categories</h1>
+        <p className="text-gray-600">Each category is browsable at /its-slug</p>
+      </div>
+
+      {/* New Category Form */}
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+          <input
+            type="text"
+            required
+            maxLength={50}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Slug (optional)</label>
+          <input
+            type="text"
+            maxLength={50}
+            value={form.slug}
+            onChange={(e) => setForm({ ...form, slug: e.target.value })}
+            className={inputClass}
+            placeholder="Generated from the name"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Parent</label>
+          <select
+            value={form.parentId}
+            onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">None (top level)</option>
+            {rows.map(({ category, depth }) => (
+              <option key={category.id} value={category.id}>
+                {'— '.repeat(depth)}{category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+          <input
+            type="text"
+            maxLength={500}
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-md font-medium hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Add Category
+          </button>
+        </div>
+      </form>
+
+      {/* Category Tree */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading categories...</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No categories yet</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {rows.map(({ category, depth }) => (
+              <li key={category.id} className="px-4 py-3 flex items-center justify-between hover:bg-gray-50">
+                <div style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                  <p className="font-medium text-gray-900">{category.name}</p>
+                  <p className="text-xs text-gray-500">/{category.slug}</p>
+                </div>
+                <button
+                  onClick={() => handleDelete(category)}
+                  className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
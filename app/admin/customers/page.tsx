@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { normalizeRole } from '../../lib/auth/claims';
+
+interface Customer {
+  userId: number;
+  email: string;
+  role?: string;
+  createdAt?: string;
+  orderCount?: number;
+  totalSpent?: number;
+}
+
+export default function AdminCustomersPage() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+
+  const { token } = useAuth();
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchCustomers = async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Admin/customers`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setCustomers(data);
+        } else {
+          console.error('Failed to fetch customers:', response.status);
+        }
+      } catch (error) {
+        console.error('Error fetching customers:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCustomers();
+  }, [token]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const term = search.trim().toLowerCase();
+  const visibleCustomers = term
+    ? customers.filter(customer => customer.email.toLowerCase().includes(term))
+    : customers;
+
+  return (
+    <>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-1">Customers</h1>
+          <p className="text-gray-600">{customers.length} registered accounts</p>
+        </div>
+        <input
+          type="search"
+          placeholder="Search by email..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading customers...</p>
+          </div>
+        ) : visibleCustomers.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No customers found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Spent</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleCustomers.map((customer) => (
+                  <tr key={customer.userId} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-gray-900">{customer.email}</p>
+                      <p className="text-xs text-gray-500">User #{customer.userId}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {normalizeRole(customer.role) === 'admin' ? (
+                        <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">Admin</span>
+                      ) : (
+                        <span className="text-gray-600">Customer</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{formatDate(customer.createdAt)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{customer.orderCount ?? '—'}</td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {customer.totalSpent !== undefined ? formatPrice(customer.totalSpent) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import Header from '../components/Header/Header';
+import { useAuth } from '../contexts/AuthContext';
+
+const NAV_ITEMS = [
+  { href: '/admin/products', label: 'Products' },
+  { href: '/admin/categories', label: 'Categories' },
+  { href: '/admin/promotions', label: 'Promotions' },
+  { href: '/admin/orders', label: 'Orders' },
+  { href: '/admin/returns', label: 'Returns' },
+  { href: '/admin/customers', label: 'Customers' },
+];
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated, isAdmin, isLoading } = useAuth();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!isAuthenticated) {
+      router.push('/login');
+    } else if (!isAdmin) {
+      router.push('/');
+    }
+  }, [isAuthenticated, isAdmin, isLoading, router]);
+
+  if (isLoading || !isAdmin) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex flex-col md:flex-row gap-8">
+          {/* Admin Navigation */}
+          <aside className="md:w-56 flex-shrink-0">
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                Store Admin
+              </h2>
+              <nav className="space-y-1">
+                {NAV_ITEMS.map((item) => (
+                  <Link
+                    key={item.href}
+                    href={item.href}
+                    className={`block px-3 py-2 rounded-md text-sm font-medium ${
+                      pathname.startsWith(item.href)
+                        ? 'bg-blue-50 text-blue-700'
+                        : 'text-gray-700 hover:bg-gray-50 hover:text-blue-600'
+                    }`}
+                  >
+                    {item.label}
+                  </Link>
+                ))}
+              </nav>
+              <div className="border-t border-gray-200 mt-4 pt-4">
+                <Link href="/" className="block px-3 py-2 text-sm text-gray-500 hover:text-blue-600">
+                  ← Back to store
+                </Link>
+              </div>
+            </div>
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {children}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import Toast from '../../components/UI/Toast';
+import CancelReasonForm from '../../components/Orders/CancelReasonForm';
+import { useAuth } from '../../contexts/AuthContext';
+import { changeOrderStatus } from '../../lib/orders/changeStatus';
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_COLORS,
+  OrderStatus,
+  getAllowedTransitions,
+  parseOrderStatus,
+} from '../../lib/orders/status';
+
+interface OrderItem {
+  id: number;
+  productId: number;
+  productName: string;
+  quantity: number;
+  price: number;
+}
+
+interface Order {
+  id: number;
+  userId: number;
+  userEmail?: string;
+  totalAmount: number;
+  status: string | number;
+  items: OrderItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One entry of GET /api/OrderAudit/{orderId}
+interface StatusEvent {
+  id: number;
+  from: OrderStatus;
+  to: OrderStatus;
+  reason?: string;
+  actorRole: string;
+  changedAt: string;
+}
+
+const CANCEL_REASONS = [
+  'Out of stock',
+  'Payment issue',
+  'Customer request',
+  'Suspected fraud',
+];
+
+export default function AdminOrdersPage() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+  const [cancellingOrderId, setCancellingOrderId] = useState<number | null>(null);
+  // Audit trail of the order whose history is open
+  const [historyOrderId, setHistoryOrderId] = useState<number | null>(null);
+  const [history, setHistory] = useState<StatusEvent[] | null>(null);
+
+  const { token } = useAuth();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  const fetchOrders = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Admin/orders`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setOrders(data);
+      } else {
+        console.error('Failed to fetch orders:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const updateOrderStatus = async (order: Order, to: OrderStatus, reason?: string) => {
+    const from = parseOrderStatus(order.status);
+    if (!token || from === null) return;
+
+    try {
+      const updated = await changeOrderStatus({ orderId: order.id, from, to, token, reason });
+      if (updated) {
+        showToast(`Order #${order.id} marked as ${to}`, 'success');
+        setCancellingOrderId(null);
+        if (historyOrderId === order.id) fetchHistory(order.id);
+        fetchOrders();
+      } else {
+        showToast('Failed to update order status', 'error');
+      }
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      showToast('Error updating order status', 'error');
+    }
+  };
+
+  const handleStatusChange = (order: Order, to: OrderStatus) => {
+    const transition = getAllowedTransitions(order.status, 'admin').find(t => t.to === to);
+    if (!transition) return;
+
+    if (transition.requiresReason) {
+      setCancellingOrderId(order.id);
+    } else {
+      updateOrderStatus(order, to);
+    }
+  };
+
+  const fetchHistory = async (orderId: number) => {
+    if (!token) return;
+
+    setHistory(null);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/OrderAudit/${orderId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        setHistory(await response.json());
+      } else {
+        setHistory([]);
+        console.error('Failed to fetch order history:', response.status);
+      }
+    } catch (error) {
+      setHistory([]);
+      console.error('Error fetching order history:', error);
+    }
+  };
+
+  const toggleHistory = (orderId: number) => {
+    if (historyOrderId === orderId) {
+      setHistoryOrderId(null);
+    } else {
+      setHistoryOrderId(orderId);
+      fetchHistory(orderId);
+    }
+  };
+
+  const getStatusText = (status: string | number) => parseOrderStatus(status) ?? 'Unknown';
+
+  const getStatusColor = (status: string | number) => {
+    const parsed = parseOrderStatus(status);
+    return parsed ? ORDER_STATUS_COLORS[parsed] : 'bg-gray-100 text-gray-800';
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const visibleOrders = statusFilter
+    ? orders.filter(order => getStatusText(order.status) === statusFilter)
+    : orders;
+
+  return (
+    <>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-1">Orders</h1>
+          <p className="text-gray-600">{orders.length} orders across all customers</p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All statuses</option>
+          {ORDER_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading orders...</p>
+          </div>
+        ) : visibleOrders.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No orders found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Placed</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleOrders.map((order) => {
+                  const transitions = getAllowedTransitions(order.status, 'admin');
+                  return (
+                    <Fragment key={order.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">#{order.id}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{order.userEmail ?? `User #${order.userId}`}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{formatDate(order.createdAt)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {order.items.reduce((total, item) => total + item.quantity, 0)}
+                        </td>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatPrice(order.totalAmount)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
+                              {getStatusText(order.status)}
+                            </span>
+                            {transitions.length > 0 && (
+                              <select
+                                value=""
+                                onChange={(e) => e.target.value && handleStatusChange(order, e.target.value as OrderStatus)}
+                                className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                              >
+                                <option value="">Change…</option>
+                                {transitions.map((transition) => (
+                                  <option key={transition.to} value={transition.to}>{transition.label}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <button
+                            onClick={() => toggleHistory(order.id)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {historyOrderId === order.id ? 'Hide history' : 'History'}
+                          </button>
+                        </td>
+                      </tr>
+                      {cancellingOrderId === order.id && (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-3 bg-red-50">
+                            <div className="max-w-md ml-auto">
+                              <CancelReasonForm
+                                reasons={CANCEL_REASONS}
+                                onClose={() => setCancellingOrderId(null)}
+                                onSubmit={(reason) => updateOrderStatus(order, OrderStatus.Cancelled, reason)}
+                              />
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      {historyOrderId === order.id && (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-3 bg-gray-50">
+                            {history === null ? (
+                              <p className="text-sm text-gray-500">Loading history...</p>
+                            ) : history.length === 0 ? (
+                              <p className="text-sm text-gray-500">No status changes recorded</p>
+                            ) : (
+                              <ol className="space-y-1 text-sm">
+                                {history.map((event) => (
+                                  <li key={event.id} className="text-gray-700">
+                                    <span className="text-gray-500">{formatDateTime(event.changedAt)}</span>
+                                    {' · '}
+                                    {event.from} → <span className="font-medium">{event.to}</span>
+                                    {' by '}
+                                    {event.actorRole}
+                                    {event.reason && <span className="text-gray-500"> — {event.reason}</span>}
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
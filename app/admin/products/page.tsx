@@ -0,0 +1,775 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Toast from '../../components/UI/Toast';
+import PriceTag from '../../components/Product/PriceTag';
+import StockBadge from '../../components/Product/StockBadge';
+import { useAuth } from '../../contexts/AuthContext';
+import { getNextPriceChange, getPriceInfo } from '../../lib/products/pricing';
+import { getAvailableStock } from '../../lib/products/stock';
+
+interface ProductVariant {
+  id: number;
+  sku: string;
+  price?: number;
+  stock?: number;
+}
+
+interface Product {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
+  image?: string;
+  stock?: number;
+  weight?: number;
+  variants?: ProductVariant[];
+  categoryIds?: number[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+interface Category {
+  id: number;
+  name: string;
+  parentId?: number;
+}
+
+interface ProductPage {
+  items: Product[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+interface ProductForm {
+  name: string;
+  description: string;
+  price: string;
+  salePrice: string;
+  // datetime-local values in the admin's timezone
+  saleStartsAt: string;
+  saleEndsAt: string;
+  image: string;
+  stock: string;
+  // Kilograms
+  weight: string;
+  categoryIds: number[];
+}
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FORM: ProductForm = {
+  name: '',
+  description: '',
+  price: '',
+  salePrice: '',
+  saleStartsAt: '',
+  saleEndsAt: '',
+  image: '',
+  stock: '',
+  weight: '',
+  categoryIds: [],
+};
+
+// ISO timestamp -> value for a datetime-local input, in local time
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toForm = (product: Product): ProductForm => ({
+  name: product.name,
+  description: product.description,
+  price: product.price.toString(),
+  salePrice: product.salePrice?.toString() ?? '',
+  saleStartsAt: toLocalInput(product.saleStartsAt),
+  saleEndsAt: toLocalInput(product.saleEndsAt),
+  image: product.image || '',
+  stock: product.stock?.toString() ?? '',
+  weight: product.weight?.toString() ?? '',
+  categoryIds: [...(product.categoryIds ?? [])].sort((a, b) => a - b),
+});
+
+// Turn form strings into an API payload, or return an error message
+const parseForm = (form: ProductForm) => {
+  const price = parseFloat(form.price);
+  if (isNaN(price) || price <= 0) {
+    return { error: 'Please enter a valid price' };
+  }
+
+  const salePrice = form.salePrice === '' ? null : parseFloat(form.salePrice);
+  if (salePrice !== null && (isNaN(salePrice) || salePrice <= 0 || salePrice >= price)) {
+    return { error: 'Sale price must be lower than the regular price' };
+  }
+
+  const saleStartsAt = form.saleStartsAt ? new Date(form.saleStartsAt).toISOString() : null;
+  const saleEndsAt = form.saleEndsAt ? new Date(form.saleEndsAt).toISOString() : null;
+  if (saleStartsAt && saleEndsAt && saleStartsAt >= saleEndsAt) {
+    return { error: 'Sale end must be after the sale start' };
+  }
+
+  const stock = form.stock === '' ? null : parseInt(form.stock);
+  if (stock !== null && (isNaN(stock) || stock < 0)) {
+    return { error: 'Please enter a valid stock quantity' };
+  }
+
+  const weight = form.weight === '' ? null : parseFloat(form.weight);
+  if (weight !== null && (isNaN(weight) || weight <= 0)) {
+    return { error: 'Please enter a valid weight' };
+  }
+
+  return {
+    data: {
+      name: form.name,
+      description: form.description,
+      price,
+      salePrice,
+      saleStartsAt,
+      saleEndsAt,
+      image: form.image || null,
+      stock,
+      weight,
+      categoryIds: form.categoryIds,
+    },
+  };
+};
+
+// Checkbox list of every category, labelled with its parent ("Men › Tops")
+function CategoryCheckboxes({ categories, selected, onChange }: {
+  categories: Category[];
+  selected: number[];
+  onChange: (categoryIds: number[]) => void;
+}) {
+  const labelFor = (category: Category): string => {
+    const parent = categories.find(c => c.id === category.parentId);
+    return parent ? `${labelFor(parent)} › ${category.name}` : category.name;
+  };
+
+  const toggle = (id: number) => {
+    const next = selected.includes(id) ? selected.filter(c => c !== id) : [...selected, id];
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  if (categories.length === 0) {
+    return <p className="text-sm text-gray-500">No categories yet</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {categories.map((category) => (
+        <label key={category.id} className="inline-flex items-center gap-1.5 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={selected.includes(category.id)}
+            onChange={() => toggle(category.id)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          {labelFor(category)}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function AdminProductsContent() {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({ total: 0, totalPages: 1 });
+  const [newProduct, setNewProduct] = useState<ProductForm>(EMPTY_FORM);
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<ProductForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+
+  const { token } = useAuth();
+  const searchParams = useSearchParams();
+  const requestedEditId = Number(searchParams.get('edit')) || null;
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  const fetchProducts = useCallback(async () => {
+    const params = new URLSearchParams({
+      sort: 'createdAt',
+      order: 'desc',
+      page: String(page),
+      limit: String(PAGE_SIZE),
+    });
+    if (search) params.set('q', search);
+
+    setLoading(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product?${params}`);
+      if (response.ok) {
+        const data: ProductPage = await response.json();
+        setProducts(data.items);
+        setPagination({ total: data.total, totalPages: data.totalPages });
+        if (page > data.totalPages) setPage(data.totalPages);
+      } else {
+        console.error('Failed to fetch products:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [search, page]);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Category`);
+      if (response.ok) {
+        setCategories(await response.json());
+      }
+    };
+
+    fetchCategories().catch(error => console.error('Error fetching categories:', error));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Open the row linked from the storefront's Edit button (/admin/products?edit=ID)
+  useEffect(() => {
+    if (!requestedEditId) return;
+
+    const loadRequested = async () => {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${requestedEditId}`);
+      if (response.ok) {
+        const product: Product = await response.json();
+        setEditingId(product.id);
+        setEditForm(toForm(product));
+        setProducts(current => current.some(p => p.id === product.id) ? current : [product, ...current]);
+      }
+    };
+
+    loadRequested().catch(error => console.error('Error loading product:', error));
+  }, [requestedEditId]);
+
+  const startEditing = (product: Product) => {
+    setEditingId(product.id);
+    setEditForm(toForm(product));
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditForm(EMPTY_FORM);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = parseForm(newProduct);
+    if (parsed.error !== undefined) {
+      showToast(parsed.error, 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(parsed.data),
+      });
+
+      if (response.ok) {
+        showToast('Product added successfully!', 'success');
+        setNewProduct(EMPTY_FORM);
+        setIsCreating(false);
+        fetchProducts();
+      } else {
+        const errorData = await response.text();
+        showToast(`Error: ${errorData}`, 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async (product: Product) => {
+    const parsed = parseForm(editForm);
+    if (parsed.error !== undefined) {
+      showToast(parsed.error, 'error');
+      return;
+    }
+
+    // Only send what changed so PATCH leaves everything else alone
+    const original = parseForm(toForm(product)).data ?? {};
+    const changes = Object.fromEntries(
+      Object.entries(parsed.data).filter(
+        ([key, value]) => JSON.stringify(original[key as keyof typeof original]) !== JSON.stringify(value)
+      )
+    );
+
+    if (Object.keys(changes).length === 0) {
+      cancelEditing();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${product.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (response.ok) {
+        const updated: Product = await response.json();
+        setProducts(current => current.map(p => (p.id === updated.id ? updated : p)));
+        showToast('Product updated successfully!', 'success');
+        cancelEditing();
+      } else {
+        const errorData = await response.text();
+        showToast(`Error: ${errorData}`, 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Are you sure you want to delete this product?')) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        showToast('Product deleted successfully!', 'success');
+        if (editingId === id) cancelEditing();
+        fetchProducts();
+      } else {
+        showToast('Error deleting product', 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    }
+  };
+
+  // e.g. "Sale ends Nov 30, 2026, 11:59 PM" for scheduled sales
+  const describeSaleSchedule = (product: Product) => {
+    const next = getNextPriceChange(product);
+    if (!next) return null;
+
+    const verb = getPriceInfo(product).compareAtPrice === undefined ? 'starts' : 'ends';
+    return `Sale ${verb} ${next.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`;
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-1">Products</h1>
+          <p className="text-gray-600">{pagination.total} products in the catalog</p>
+        </div>
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          className="bg-emerald-600 text-white px-4 py-2 rounded-md font-medium hover:bg-emerald-700"
+        >
+          {isCreating ? 'Close' : 'Add Product'}
+        </button>
+      </div>
+
+      {/* New Product Form */}
+      {isCreating && (
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              required
+              maxLength={100}
+              value={newProduct.name}
+              onChange={(e) => setNewProduct({ ...newProduct, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Image URL (optional)</label>
+            <input
+              type="url"
+              maxLength={200}
+              value={newProduct.image}
+              onChange={(e) => setNewProduct({ ...newProduct, image: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description *</label>
+            <textarea
+              required
+              maxLength={500}
+              rows={3}
+              value={newProduct.description}
+              onChange={(e) => setNewProduct({ ...newProduct, description: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Price ($) *</label>
+            <input
+              type="number"
+              required
+              min="0.01"
+              max="10000"
+              step="0.01"
+              value={newProduct.price}
+              onChange={(e) => setNewProduct({ ...newProduct, price: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Stock (blank = untracked)</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={newProduct.stock}
+                onChange={(e) => setNewProduct({ ...newProduct, stock: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Weight (kg, optional)</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={newProduct.weight}
+                onChange={(e) => setNewProduct({ ...newProduct, weight: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sale Price ($, optional)</label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={newProduct.salePrice}
+              onChange={(e) => setNewProduct({ ...newProduct, salePrice: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sale Starts</label>
+              <input
+                type="datetime-local"
+                value={newProduct.saleStartsAt}
+                onChange={(e) => setNewProduct({ ...newProduct, saleStartsAt: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sale Ends</label>
+              <input
+                type="datetime-local"
+                value={newProduct.saleEndsAt}
+                onChange={(e) => setNewProduct({ ...newProduct, saleEndsAt: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Categories</label>
+            <CategoryCheckboxes
+              categories={categories}
+              selected={newProduct.categoryIds}
+              onChange={(categoryIds) => setNewProduct({ ...newProduct, categoryIds })}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="bg-emerald-600 text-white px-4 py-2 rounded-md font-medium hover:bg-emerald-700 disabled:opacity-50"
+            >
+              Add Product
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Product Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <input
+            type="search"
+            placeholder="Search products..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variants</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {loading && products.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                    <p className="mt-2 text-gray-500">Loading products...</p>
+                  </td>
+                </tr>
+              ) : products.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-gray-500">
+                    No products found
+                  </td>
+                </tr>
+              ) : (
+                products.map((product) => editingId === product.id ? (
+                  <tr key={product.id} className="bg-blue-50">
+                    <td colSpan={5} className="p-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                        <input
+                          type="text"
+                          required
+                          maxLength={100}
+                          value={editForm.name}
+                          onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                          className={`${inputClass} md:col-span-2`}
+                          placeholder="Name"
+                        />
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={editForm.price}
+                          onChange={(e) => setEditForm({ ...editForm, price: e.target.value })}
+                          className={inputClass}
+                          placeholder="Price"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={editForm.stock}
+                          onChange={(e) => setEditForm({ ...editForm, stock: e.target.value })}
+                          className={inputClass}
+                          placeholder={product.variants?.length ? 'Tracked per variant' : 'Stock (blank = untracked)'}
+                          disabled={!!product.variants?.length}
+                        />
+                        <textarea
+                          maxLength={500}
+                          rows={2}
+                          value={editForm.description}
+                          onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                          className={`${inputClass} md:col-span-2`}
+                          placeholder="Description"
+                        />
+                        <input
+                          type="url"
+                          maxLength={200}
+                          value={editForm.image}
+                          onChange={(e) => setEditForm({ ...editForm, image: e.target.value })}
+                          className={`${inputClass} md:col-span-2`}
+                          placeholder="Image URL"
+                        />
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={editForm.salePrice}
+                          onChange={(e) => setEditForm({ ...editForm, salePrice: e.target.value })}
+                          className={inputClass}
+                          placeholder="Sale price"
+                        />
+                        <input
+                          type="datetime-local"
+                          value={editForm.saleStartsAt}
+                          onChange={(e) => setEditForm({ ...editForm, saleStartsAt: e.target.value })}
+                          className={inputClass}
+                          title="Sale starts"
+                        />
+                        <input
+                          type="datetime-local"
+                          value={editForm.saleEndsAt}
+                          onChange={(e) => setEditForm({ ...editForm, saleEndsAt: e.target.value })}
+                          className={inputClass}
+                          title="Sale ends"
+                        />
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={editForm.weight}
+                          onChange={(e) => setEditForm({ ...editForm, weight: e.target.value })}
+                          className={inputClass}
+                          placeholder="Shipping weight (kg)"
+                        />
+                        <div className="md:col-span-4">
+                          <CategoryCheckboxes
+                            categories={categories}
+                            selected={editForm.categoryIds}
+                            onChange={(categoryIds) => setEditForm({ ...editForm, categoryIds })}
+                          />
+                        </div>
+                      </div>
+                      <div className="mt-3 flex justify-end gap-2">
+                        <button
+                          onClick={cancelEditing}
+                          className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleSave(product)}
+                          disabled={isSaving}
+                          className="px-3 py-1 text-sm bg-emerald-600 text-white rounded hover:bg-emerald-700 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={product.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center space-x-3">
+                        {product.image ? (
+                          <img src={product.image} alt={product.name} className="w-10 h-10 object-cover rounded" />
+                        ) : (
+                          <div className="w-10 h-10 bg-gray-200 rounded" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{product.name}</p>
+                          <p className="text-xs text-gray-500 truncate max-w-xs">{product.description}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <PriceTag {...getPriceInfo(product)} priceClassName="text-sm text-gray-900" />
+                      <p className="text-xs text-gray-500">{describeSaleSchedule(product)}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <div className="flex items-center gap-2">
+                        <span>{getAvailableStock(product) ?? '—'}</span>
+                        <StockBadge stock={getAvailableStock(product)} />
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{product.variants?.length ?? 0}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => startEditing(product)}
+                        className="px-3 py-1 text-sm bg-emerald-100 text-emerald-700 rounded hover:bg-emerald-200 transition-colors mr-2"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(product.id)}
+                        className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pagination.totalPages > 1 && (
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || loading}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages || loading}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
+
+export default function AdminProductsPage() {
+  return (
+    <Suspense fallback={
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading...</p>
+      </div>
+    }>
+      <AdminProductsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,405 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Toast from '../../components/UI/Toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { describePromotion, type PromotionRule } from '../../lib/promotions/discounts';
+
+interface Promotion extends PromotionRule {
+  id: number;
+  startsAt?: string;
+  expiresAt?: string;
+  usageLimit?: number;
+  redemptions: { orderId: number }[];
+  active: boolean;
+}
+
+interface PromotionForm {
+  code: string;
+  type: PromotionRule['type'];
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  minSubtotal: string;
+  usageLimit: string;
+  startsAt: string;
+  expiresAt: string;
+  description: string;
+}
+
+const TYPE_LABELS: Record<PromotionRule['type'], string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y free',
+};
+
+const EMPTY_FORM: PromotionForm = {
+  code: '',
+  type: 'percentage',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  minSubtotal: '',
+  usageLimit: '',
+  startsAt: '',
+  expiresAt: '',
+  description: '',
+};
+
+// Blank inputs are left out so the API applies its defaults
+const toPayload = (form: PromotionForm) => {
+  const number = (value: string) => (value === '' ? undefined : Number(value));
+  const timestamp = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+  return {
+    code: form.code,
+    type: form.type,
+    value: form.type === 'percentage' || form.type === 'fixed' ? number(form.value) : undefined,
+    buyQuantity: form.type === 'buy_x_get_y' ? number(form.buyQuantity) : undefined,
+    getQuantity: form.type === 'buy_x_get_y' ? number(form.getQuantity) : undefined,
+    minSubtotal: number(form.minSubtotal),
+    usageLimit: number(form.usageLimit),
+    startsAt: timestamp(form.startsAt),
+    expiresAt: timestamp(form.expiresAt),
+    description: form.description || undefined,
+  };
+};
+
+export default function AdminPromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+
+  const { token } = useAuth();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  const fetchPromotions = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Promo`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPromotions(data);
+      } else {
+        console.error('Failed to fetch promotions:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Promo`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(toPayload(form)),
+      });
+
+      if (response.ok) {
+        showToast('Promo code created!', 'success');
+        setForm(EMPTY_FORM);
+        fetchPromotions();
+      } else {
+        const errorData = await response.json().catch(() => null);
+        showToast(errorData?.error ?? 'Failed to create promo code', 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (promotion: Promotion) => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Promo/${promotion.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ active: !promotion.active }),
+      });
+
+      if (response.ok) {
+        const updated: Promotion = await response.json();
+        setPromotions(current => current.map(p => (p.id === updated.id ? updated : p)));
+      } else {
+        showToast('Failed to update promo code', 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Delete promo code ${promotion.code}?`)) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Promo/${promotion.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        showToast('Promo code deleted', 'success');
+        fetchPromotions();
+      } else {
+        showToast('Failed to delete promo code', 'error');
+      }
+    } catch (error) {
+      showToast(`Error: ${error}`, 'error');
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">Promotions</h1>
+        <p className="text-gray-600">{promotions.length} promo codes</p>
+      </div>
+
+      {/* New Promo Code Form */}
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-6 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Code *</label>
+          <input
+            type="text"
+            required
+            maxLength={32}
+            value={form.code}
+            onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type *</label>
+          <select
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as PromotionRule['type'] })}
+            className={`${inputClass} bg-white`}
+          >
+            {Object.entries(TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {form.type === 'buy_x_get_y' ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Buy *</label>
+              <input
+                type="number"
+                required
+                min="1"
+                step="1"
+                value={form.buyQuantity}
+                onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Get free *</label>
+              <input
+                type="number"
+                required
+                min="1"
+                step="1"
+                value={form.getQuantity}
+                onChange={(e) => setForm({ ...form, getQuantity: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        ) : form.type !== 'free_shipping' ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {form.type === 'percentage' ? 'Percent off *' : 'Amount off ($) *'}
+            </label>
+            <input
+              type="number"
+              required
+              min="0.01"
+              max={form.type === 'percentage' ? '100' : undefined}
+              step="0.01"
+              value={form.value}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        ) : (
+          <div />
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Minimum spend ($)</label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={form.minSubtotal}
+            onChange={(e) => setForm({ ...form, minSubtotal: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Usage limit (orders)</label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={form.usageLimit}
+            onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            maxLength={200}
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClass}
+            placeholder="Shown to shoppers"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+          <input
+            type="datetime-local"
+            value={form.startsAt}
+            onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+          <input
+            type="datetime-local"
+            value={form.expiresAt}
+            onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-emerald-600 text-white px-4 py-2 rounded-md font-medium hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Create Code
+          </button>
+        </div>
+      </form>
+
+      {/* Promo Code Table */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading promotions...</p>
+          </div>
+        ) : promotions.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No promo codes yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Offer</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {promotions.map((promotion) => (
+                  <tr key={promotion.id} className={promotion.active ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-4 py-3 text-sm font-mono font-medium">{promotion.code}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <p>{describePromotion(promotion)}</p>
+                      {promotion.minSubtotal !== undefined && (
+                        <p className="text-xs text-gray-500">Min. spend ${promotion.minSubtotal.toFixed(2)}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {promotion.redemptions.length}
+                      {promotion.usageLimit !== undefined && ` / ${promotion.usageLimit}`}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {formatDate(promotion.startsAt)} – {formatDate(promotion.expiresAt)}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => toggleActive(promotion)}
+                        className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors mr-2"
+                      >
+                        {promotion.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(promotion)}
+                        className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import Toast from '../../components/UI/Toast';
+import ReturnProgress from '../../components/Returns/ReturnProgress';
+import ReturnStatusBadge from '../../components/Returns/ReturnStatusBadge';
+import { useAuth } from '../../contexts/AuthContext';
+import type { ReturnRecord } from '../../lib/db/store';
+import {
+  RETURN_STATUSES,
+  RETURN_STATUS_LABELS,
+  getNextReturnStatus,
+  getReturnActionLabel,
+  type ReturnStatus,
+} from '../../lib/returns/status';
+
+export default function AdminReturnsPage() {
+  const [returns, setReturns] = useState<ReturnRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | ''>('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+
+  const { token } = useAuth();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  const fetchReturns = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setReturns(data);
+      } else {
+        console.error('Failed to fetch returns:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  const advanceReturn = async (productReturn: ReturnRecord, status: ReturnStatus) => {
+    if (!token) return;
+
+    setUpdatingId(productReturn.id);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns/${productReturn.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      if (response.ok) {
+        showToast(`${productReturn.rmaNumber} marked ${RETURN_STATUS_LABELS[status].toLowerCase()}`, 'success');
+        fetchReturns();
+      } else {
+        const data = await response.json().catch(() => null);
+        showToast(data?.error ?? 'Failed to update return', 'error');
+      }
+    } catch (error) {
+      console.error('Error updating return:', error);
+      showToast('Error updating return', 'error');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const visibleReturns = statusFilter
+    ? returns.filter(productReturn => productReturn.status === statusFilter)
+    : returns;
+
+  return (
+    <>
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-1">Returns</h1>
+          <p className="text-gray-600">
+            {returns.filter(productReturn => productReturn.status !== 'refunded').length} open of {returns.length} returns
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReturnStatus | '')}
+          className="px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All statuses</option>
+          {RETURN_STATUSES.map((status) => (
+            <option key={status} value={status}>{RETURN_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading returns...</p>
+          </div>
+        ) : visibleReturns.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No returns found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">RMA</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Resolution</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleReturns.map((productReturn) => {
+                  const next = getNextReturnStatus(productReturn.status);
+                  return (
+                    <Fragment key={productReturn.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{productReturn.rmaNumber}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          <Link href={`/orders/${productReturn.orderId}`} className="text-blue-600 hover:text-blue-800">
+                            #{productReturn.orderId}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{formatDate(productReturn.createdAt)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {productReturn.items.reduce((total, item) => total + item.quantity, 0)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {productReturn.resolution === 'refund' ? `Refund ${formatPrice(productReturn.refundAmount)}` : 'Exchange'}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center gap-2">
+                            <ReturnStatusBadge status={productReturn.status} resolution={productReturn.resolution} />
+                            {next && (
+                              <button
+                                onClick={() => advanceReturn(productReturn, next)}
+                                disabled={updatingId === productReturn.id}
+                                className="text-xs bg-green-600 text-white px-2 py-0.5 rounded hover:bg-green-700 disabled:opacity-50"
+                              >
+                                {getReturnActionLabel(next, productReturn.resolution)}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <button
+                            onClick={() => setExpandedId(expandedId === productReturn.id ? null : productReturn.id)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {expandedId === productReturn.id ? 'Hide details' : 'Details'}
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedId === productReturn.id && (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-4 bg-gray-50 text-sm space-y-3">
+                            <ul className="space-y-1">
+                              {productReturn.items.map((item) => (
+                                <li key={item.orderItemId} className="text-gray-700">
+                                  {item.quantity} × {item.productName}
+                                  {(item.size || item.color) && (
+                                    <span className="text-gray-500"> ({[item.size, item.color].filter(Boolean).join(' / ')})</span>
+                                  )}
+                                  {item.exchangeSize && (
+                                    <span className="font-medium"> → send {item.exchangeSize}</span>
+                                  )}
+                                  <span className="text-gray-500"> · {formatPrice(item.price)} each</span>
+                                </li>
+                              ))}
+                            </ul>
+                            <p className="text-gray-700">
+                              <span className="text-gray-500">Reason:</span> {productReturn.reason}
+                              {productReturn.comment && <span className="text-gray-500"> — {productReturn.comment}</span>}
+                            </p>
+                            <ReturnProgress history={productReturn.history} resolution={productReturn.resolution} />
+                            <Link href={`/returns/${productReturn.id}`} className="inline-block text-blue-600 hover:text-blue-800">
+                              View return label
+                            </Link>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../lib/auth/server';
+import {
+  CategoryConflictError,
+  deleteCategory,
+  getCategory,
+  InvalidCategoryError,
+  updateCategory,
+} from '../../../lib/categories/repository';
+import { validateCategoryChanges } from '../../../lib/categories/validation';
+
+// GET /api/Category/[id] - Fetch a single category
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid category ID' },
+        { status: 400 }
+      );
+    }
+
+    const category = await getCategory(id);
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(category, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching category:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch category' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/Category/[id] - Rename, re-slug or move a category
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid category ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateCategoryChanges(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const category = await updateCategory(id, validation.data);
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(category, { status: 200 });
+  } catch (error) {
+    if (error instanceof InvalidCategoryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof CategoryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error updating category:', error);
+    return NextResponse.json(
+      { error: 'Failed to update category' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/Category/[id] - Delete a category that has no subcategories
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid category ID' },
+        { status: 400 }
+      );
+    }
+
+    const category = await deleteCategory(id);
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Category deleted successfully', category },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof CategoryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error deleting category:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete category' },
+      { status: 500 }
+    );
+  }
+}
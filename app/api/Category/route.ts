@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../lib/auth/server';
+import {
+  CategoryConflictError,
+  createCategory,
+  InvalidCategoryError,
+  listCategories,
+} from '../../lib/categories/repository';
+import { validateCategoryInput } from '../../lib/categories/validation';
+
+// GET /api/Category - Fetch all categories as a flat list; nest them with `parentId`
+export async function GET() {
+  try {
+    const categories = await listCategories();
+    return NextResponse.json(categories, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch categories' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/Category - Create a category
+export async function POST(request: NextRequest) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateCategoryInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const category = await createCategory(validation.data);
+
+    return NextResponse.json(category, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidCategoryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof CategoryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error creating category:', error);
+    return NextResponse.json(
+      { error: 'Failed to create category' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../../lib/auth/server';
+import { fetchCallerOrder } from '../../../../lib/orders/backend';
+import { priceOrder, UnpricedOrderError } from '../../../../lib/orders/charge';
+import { OrderStatus, parseOrderStatus } from '../../../../lib/orders/status';
+
+// POST /api/Checkout/[orderId]/payment-intent - Price the caller's pending order and create its
+// payment intent for that amount through the backend's create-payment-intent.
+// Returns the backend's response with the charge it was created for as `charge`.
+// An `Idempotency-Key` header is passed on with the amount appended, so a retry returns the
+// same intent unless the amount has changed, e.g. after the promo code was dropped.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId: orderIdParam } = await params;
+    const orderId = parseInt(orderIdParam);
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const order = await fetchCallerOrder(request, claims, orderId);
+    if (!order || order.userId !== claims.userId) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    if (parseOrderStatus(order.status) !== OrderStatus.Pending) {
+      return NextResponse.json(
+        { error: 'This order has already been paid for' },
+        { status: 400 }
+      );
+    }
+
+    const charge = await priceOrder(order);
+
+    const idempotencyKey = request.headers.get('idempotency-key');
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Payment/create-payment-intent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': request.headers.get('authorization') ?? '',
+        ...(idempotencyKey && { 'Idempotency-Key': `${idempotencyKey}:${Math.round(charge.amount * 100)}` }),
+      },
+      body: JSON.stringify({ orderId, amount: charge.amount }),
+      cache: 'no-store',
+    });
+    if (!response.ok) throw new Error(`Backend refused the payment intent: ${response.status}`);
+
+    const paymentIntent = await response.json();
+    return NextResponse.json({ ...paymentIntent, charge }, { status: 200 });
+  } catch (error) {
+    if (error instanceof UnpricedOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating payment intent:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payment intent' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../lib/auth/server';
+import { fetchCallerOrder } from '../../../lib/orders/backend';
+import { priceOrder, UnpricedOrderError } from '../../../lib/orders/charge';
+
+// GET /api/Checkout/[orderId] - What the caller's order is charged: its items less the redeemed
+// promo code, plus shipping and any tax not already in the prices
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId: orderIdParam } = await params;
+    const orderId = parseInt(orderIdParam);
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const order = await fetchCallerOrder(request, claims, orderId);
+    if (!order || order.userId !== claims.userId) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const charge = await priceOrder(order);
+    return NextResponse.json(charge, { status: 200 });
+  } catch (error) {
+    if (error instanceof UnpricedOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error pricing order:', error);
+    return NextResponse.json(
+      { error: 'Failed to price order' },
+      { status: 500 }
+    );
+  }
+}
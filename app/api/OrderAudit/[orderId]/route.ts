@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../lib/auth/server';
+import { fetchCallerOrder } from '../../../lib/orders/backend';
+import { listOrderStatusEvents } from '../../../lib/orders/repository';
+
+// GET /api/OrderAudit/[orderId] - The order's status changes, oldest first. Changes are
+// recorded by PATCH /api/OrderStatus/[orderId] as it makes them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId: orderIdParam } = await params;
+    const orderId = parseInt(orderIdParam);
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    // Admins see every order's history; anyone else only their own
+    if (claims.role !== 'admin' && !(await fetchCallerOrder(request, claims, orderId))) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const events = await listOrderStatusEvents(orderId);
+    return NextResponse.json(events, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching order history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch order history' },
+      { status: 500 }
+    );
+  }
+}
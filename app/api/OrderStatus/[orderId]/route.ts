@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../lib/auth/server';
+import { fetchCallerOrder } from '../../../lib/orders/backend';
+import { recordOrderStatusEvent } from '../../../lib/orders/repository';
+import { findTransition, parseOrderStatus, type OrderActor } from '../../../lib/orders/status';
+import { validateStatusChangeInput } from '../../../lib/orders/validation';
+import { fetchPaymentIntentStatus } from '../../../lib/payments/intents';
+
+// PATCH /api/OrderStatus/[orderId] - Move the caller's order to a new status through the Order
+// API and record the change in the audit trail
+// Body: { from, to, reason?, paymentIntentId? }. `from` is the status the caller last saw; the
+// change is refused if the order has moved on since. The move is checked against the caller's
+// role, or allowed as the app's own when `paymentIntentId` is the order's payment intent and
+// Stripe reports it succeeded.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { orderId: orderIdParam } = await params;
+    const orderId = parseInt(orderIdParam);
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { error: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const { data, error } = validateStatusChangeInput(body);
+    if (error !== undefined) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const { from, to, reason, paymentIntentId } = data;
+
+    const order = await fetchCallerOrder(request, claims, orderId);
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = parseOrderStatus(order.status);
+    if (current !== from) {
+      return NextResponse.json(
+        { error: `Order #${orderId} is now ${current ?? order.status}; reload and try again` },
+        { status: 409 }
+      );
+    }
+
+    let actor: OrderActor = claims.role;
+    if (
+      !findTransition(current, to, actor) &&
+      findTransition(current, to, 'system') &&
+      paymentIntentId !== undefined &&
+      paymentIntentId === order.stripePaymentIntentId &&
+      await fetchPaymentIntentStatus(paymentIntentId) === 'succeeded'
+    ) {
+      actor = 'system';
+    }
+
+    const transition = findTransition(current, to, actor);
+    if (!transition) {
+      return NextResponse.json(
+        { error: `Changing an order from ${current} to ${to} is not allowed` },
+        { status: 403 }
+      );
+    }
+    if (transition.requiresReason && !reason) {
+      return NextResponse.json(
+        { error: 'A reason is required for this change' },
+        { status: 400 }
+      );
+    }
+
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}/status`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': request.headers.get('authorization') ?? '',
+      },
+      body: JSON.stringify(to),
+      cache: 'no-store',
+    });
+    if (!response.ok) throw new Error(`Order API refused the status change: ${response.status}`);
+
+    const event = await recordOrderStatusEvent({
+      orderId,
+      from: current,
+      to,
+      reason,
+      actorRole: actor,
+      actorId: actor === 'system' ? undefined : claims.userId,
+    });
+    return NextResponse.json(event, { status: 200 });
+  } catch (error) {
+    console.error('Error changing order status:', error);
+    return NextResponse.json(
+      { error: 'Failed to change order status' },
+      { status: 500 }
+    );
+  }
+}
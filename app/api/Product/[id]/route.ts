@@ -1,57 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { InvalidCategoryError } from '../../../lib/categories/repository';
+import { requireAdmin } from '../../../lib/auth/server';
+import { deleteProduct, getProduct, InvalidSaleError, updateProduct } from '../../../lib/products/repository';
+import { validateProductChanges, validateProductInput } from '../../../lib/products/validation';
 
-// Import the products array from the parent route
-// Note: In a real application, you'd use a database
-// For this demo, we'll duplicate the array reference
-let products: Array<{
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  image?: string;
-  createdAt: string;
-  updatedAt: string;
-}> = [];
-
-// This is a workaround for the demo - in a real app you'd use a database
-// We'll access the products from the global scope or use a shared module
-declare global {
-  var globalProducts: Array<{
-    id: number;
-    name: string;
-    description: string;
-    price: number;
-    image?: string;
-    createdAt: string;
-    updatedAt: string;
-  }> | undefined;
-}
+// GET /api/Product/[id] - Fetch a single product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
 
-// Initialize global products if not exists
-if (!global.globalProducts) {
-  global.globalProducts = [
-    {
-      id: 1,
-      name: 'Classic Cotton T-Shirt',
-      description: 'A comfortable, breathable cotton t-shirt perfect for everyday wear.',
-      price: 29.99,
-      image: 'https://via.placeholder.com/300x300?text=T-Shirt',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      id: 2,
-      name: 'Denim Jeans',
-      description: 'Premium quality denim jeans with a modern fit.',
-      price: 79.99,
-      image: 'https://via.placeholder.com/300x300?text=Jeans',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    const product = await getProduct(id);
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
     }
-  ];
-}
 
-products = global.globalProducts;
+    return NextResponse.json(product, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching product:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product' },
+      { status: 500 }
+    );
+  }
+}
 
 // PUT /api/Product/[id] - Update a product
 export async function PUT(
@@ -59,6 +43,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
     const { id: idParam } = await params;
     const id = parseInt(idParam);
     if (isNaN(id)) {
@@ -69,61 +56,81 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, description, price, image } = body;
 
     // Validation
-    if (!name || !description || !price) {
-      return NextResponse.json(
-        { error: 'Name, description, and price are required' },
-        { status: 400 }
-      );
+    const validation = validateProductInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
     }
 
-    if (typeof price !== 'number' || price <= 0) {
+    // Find and update the product
+    const updatedProduct = await updateProduct(id, validation.data);
+    if (!updatedProduct) {
       return NextResponse.json(
-        { error: 'Price must be a positive number' },
-        { status: 400 }
+        { error: 'Product not found' },
+        { status: 404 }
       );
     }
 
-    if (name.length > 100) {
+    return NextResponse.json(updatedProduct, { status: 200 });
+  } catch (error) {
+    if (error instanceof InvalidCategoryError || error instanceof InvalidSaleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error updating product:', error);
+    return NextResponse.json(
+      { error: 'Failed to update product' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/Product/[id] - Update only the fields that were sent
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
       return NextResponse.json(
-        { error: 'Name must be 100 characters or less' },
+        { error: 'Invalid product ID' },
         { status: 400 }
       );
     }
 
-    if (description.length > 500) {
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
       return NextResponse.json(
-        { error: 'Description must be 500 characters or less' },
+        { error: 'Request body must be a JSON object' },
         { status: 400 }
       );
     }
 
-    // Find and update the product
-    const productIndex = products.findIndex(p => p.id === id);
-    if (productIndex === -1) {
+    // Validation
+    const validation = validateProductChanges(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const updatedProduct = await updateProduct(id, validation.data);
+    if (!updatedProduct) {
       return NextResponse.json(
         { error: 'Product not found' },
         { status: 404 }
       );
     }
 
-    const updatedProduct = {
-      ...products[productIndex],
-      name,
-      description,
-      price,
-      image: image || undefined,
-      updatedAt: new Date().toISOString(),
-    };
-
-    products[productIndex] = updatedProduct;
-    global.globalProducts = products;
-
     return NextResponse.json(updatedProduct, { status: 200 });
   } catch (error) {
-    console.error('Error updating product:', error);
+    if (error instanceof InvalidCategoryError || error instanceof InvalidSaleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error patching product:', error);
     return NextResponse.json(
       { error: 'Failed to update product' },
       { status: 500 }
@@ -137,6 +144,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
     const { id: idParam } = await params;
     const id = parseInt(idParam);
     if (isNaN(id)) {
@@ -146,19 +156,15 @@ export async function DELETE(
       );
     }
 
-    // Find the product
-    const productIndex = products.findIndex(p => p.id === id);
-    if (productIndex === -1) {
+    // Remove the product
+    const deletedProduct = await deleteProduct(id);
+    if (!deletedProduct) {
       return NextResponse.json(
         { error: 'Product not found' },
         { status: 404 }
       );
     }
 
-    // Remove the product
-    const deletedProduct = products.splice(productIndex, 1)[0];
-    global.globalProducts = products;
-
     return NextResponse.json(
       { message: 'Product deleted successfully', product: deletedProduct },
       { status: 200 }
@@ -170,4 +176,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../lib/auth/server';
+import { deleteVariant, DuplicateSkuError, updateVariant } from '../../../../../lib/products/repository';
+import { validateVariantChanges } from '../../../../../lib/products/validation';
+
+// PATCH /api/Product/[id]/variants/[variantId] - Update only the fields that were sent
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; variantId: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam, variantId: variantIdParam } = await params;
+    const id = parseInt(idParam);
+    const variantId = parseInt(variantIdParam);
+    if (isNaN(id) || isNaN(variantId)) {
+      return NextResponse.json(
+        { error: 'Invalid product or variant ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateVariantChanges(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const variant = await updateVariant(id, variantId, validation.data);
+    if (!variant) {
+      return NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(variant, { status: 200 });
+  } catch (error) {
+    if (error instanceof DuplicateSkuError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error updating variant:', error);
+    return NextResponse.json(
+      { error: 'Failed to update variant' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/Product/[id]/variants/[variantId] - Remove a variant
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; variantId: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam, variantId: variantIdParam } = await params;
+    const id = parseInt(idParam);
+    const variantId = parseInt(variantIdParam);
+    if (isNaN(id) || isNaN(variantId)) {
+      return NextResponse.json(
+        { error: 'Invalid product or variant ID' },
+        { status: 400 }
+      );
+    }
+
+    const variant = await deleteVariant(id, variantId);
+    if (!variant) {
+      return NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Variant deleted successfully', variant },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting variant:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete variant' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../lib/auth/server';
+import { createVariant, DuplicateSkuError, getProduct } from '../../../../lib/products/repository';
+import { validateVariantInput } from '../../../../lib/products/validation';
+
+// GET /api/Product/[id]/variants - List a product's variants
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const product = await getProduct(id);
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(product.variants, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching variants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch variants' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/Product/[id]/variants - Add a variant to a product
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateVariantInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const variant = await createVariant(id, validation.data);
+    if (!variant) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(variant, { status: 201 });
+  } catch (error) {
+    if (error instanceof DuplicateSkuError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error creating variant:', error);
+    return NextResponse.json(
+      { error: 'Failed to create variant' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,54 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Global type declaration for shared products array
-declare global {
-  var globalProducts: Array<{
-    id: number;
-    name: string;
-    description: string;
-    price: number;
-    image?: string;
-    createdAt: string;
-    updatedAt: string;
-  }> | undefined;
-  var nextProductId: number | undefined;
-}
-
-// Initialize global products if not exists
-if (!global.globalProducts) {
-  global.globalProducts = [
-    {
-      id: 1,
-      name: 'Classic Cotton T-Shirt',
-      description: 'A comfortable, breathable cotton t-shirt perfect for everyday wear.',
-      price: 29.99,
-      image: 'https://via.placeholder.com/300x300?text=T-Shirt',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      id: 2,
-      name: 'Denim Jeans',
-      description: 'Premium quality denim jeans with a modern fit.',
-      price: 79.99,
-      image: 'https://via.placeholder.com/300x300?text=Jeans',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+import { InvalidCategoryError } from '../../lib/categories/repository';
+import { requireAdmin } from '../../lib/auth/server';
+import { createProduct, InvalidSaleError, queryProducts } from '../../lib/products/repository';
+import { parseProductQuery, validateProductInput } from '../../lib/products/validation';
+
+// GET /api/Product - Search, filter, sort and paginate products
+// Query: q, category (slug), onSale (true), minPrice, maxPrice, sort (price|name|createdAt), order (asc|desc), page, limit
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseProductQuery(request.nextUrl.searchParams);
+    if (query.error !== undefined) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
     }
-  ];
-}
 
-if (!global.nextProductId) {
-  global.nextProductId = 3;
-}
-
-const products = global.globalProducts;
-let nextId = global.nextProductId;
-
-// GET /api/Product - Fetch all products
-export async function GET() {
-  try {
-    return NextResponse.json(products, { status: 200 });
+    const result = await queryProducts(query.data);
+    return NextResponse.json(result, { status: 200 });
   } catch (error) {
     console.error('Error fetching products:', error);
     return NextResponse.json(
@@ -61,58 +27,29 @@ export async function GET() {
 // POST /api/Product - Create a new product
 export async function POST(request: NextRequest) {
   try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
     const body = await request.json();
-    const { name, description, price, image } = body;
 
     // Validation
-    if (!name || !description || !price) {
-      return NextResponse.json(
-        { error: 'Name, description, and price are required' },
-        { status: 400 }
-      );
-    }
-
-    if (typeof price !== 'number' || price <= 0) {
-      return NextResponse.json(
-        { error: 'Price must be a positive number' },
-        { status: 400 }
-      );
-    }
-
-    if (name.length > 100) {
-      return NextResponse.json(
-        { error: 'Name must be 100 characters or less' },
-        { status: 400 }
-      );
-    }
-
-    if (description.length > 500) {
-      return NextResponse.json(
-        { error: 'Description must be 500 characters or less' },
-        { status: 400 }
-      );
+    const validation = validateProductInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
     }
 
     // Create new product
-    const newProduct = {
-      id: nextId++,
-      name,
-      description,
-      price,
-      image: image || undefined,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    products.push(newProduct);
-    global.nextProductId = nextId;
+    const newProduct = await createProduct(validation.data);
 
     return NextResponse.json(newProduct, { status: 201 });
   } catch (error) {
+    if (error instanceof InvalidCategoryError || error instanceof InvalidSaleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Error creating product:', error);
     return NextResponse.json(
       { error: 'Failed to create product' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../lib/auth/server';
+import {
+  deletePromotion,
+  InvalidPromotionError,
+  PromotionConflictError,
+  updatePromotion,
+} from '../../../lib/promotions/repository';
+import { validatePromotionChanges } from '../../../lib/promotions/validation';
+
+// PATCH /api/Promo/[id] - Update a promo code, e.g. `{ "active": false }` to switch it off
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid promotion ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validatePromotionChanges(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const promotion = await updatePromotion(id, validation.data);
+    if (!promotion) {
+      return NextResponse.json(
+        { error: 'Promotion not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(promotion, { status: 200 });
+  } catch (error) {
+    if (error instanceof InvalidPromotionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PromotionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error updating promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to update promotion' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/Promo/[id] - Delete a promo code
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid promotion ID' },
+        { status: 400 }
+      );
+    }
+
+    const promotion = await deletePromotion(id);
+    if (!promotion) {
+      return NextResponse.json(
+        { error: 'Promotion not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Promotion deleted successfully', promotion },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete promotion' },
+      { status: 500 }
+    );
+  }
+}
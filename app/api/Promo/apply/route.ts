@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { priceCartLines } from '../../../lib/products/repository';
+import { calculateDiscount } from '../../../lib/promotions/discounts';
+import {
+  assertPromotionAvailable,
+  getPromotionByCode,
+  PromotionUnavailableError,
+  toPromotionRule,
+} from '../../../lib/promotions/repository';
+import { validateDiscountRequest } from '../../../lib/promotions/validation';
+
+// POST /api/Promo/apply - Check a promo code against a cart and price the discount
+// Body: { code, items: [{ productId, variantId?, quantity }] }. Nothing is recorded.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateDiscountRequest(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const promotion = await getPromotionByCode(validation.data.code);
+    if (!promotion) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      );
+    }
+    assertPromotionAvailable(promotion);
+
+    const lines = await priceCartLines(validation.data.items);
+    if (!lines) {
+      return NextResponse.json(
+        { error: 'Your cart contains a product that is no longer available' },
+        { status: 400 }
+      );
+    }
+
+    const rule = toPromotionRule(promotion);
+    const result = calculateDiscount(rule, lines);
+
+    return NextResponse.json(
+      { promotion: rule, discount: result.amount, freeShipping: result.freeShipping, message: result.message },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof PromotionUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error applying promo code:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply promo code' },
+      { status: 500 }
+    );
+  }
+}
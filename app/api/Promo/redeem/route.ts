@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../lib/auth/server';
+import { fetchCallerOrder } from '../../../lib/orders/backend';
+import { OrderStatus, parseOrderStatus } from '../../../lib/orders/status';
+import { calculateDiscount } from '../../../lib/promotions/discounts';
+import {
+  assertPromotionAvailable,
+  getPromotionByCode,
+  PromotionUnavailableError,
+  redeemPromotion,
+  toPromotionRule,
+} from '../../../lib/promotions/repository';
+import { validateRedemptionRequest } from '../../../lib/promotions/validation';
+
+// POST /api/Promo/redeem - Use a promo code on the caller's pending order and return the discount
+// Body: { code, orderId }. The order is loaded from the backend and its own items are priced.
+// Repeating it for the same order is a no-op.
+export async function POST(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateRedemptionRequest(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { code, orderId } = validation.data;
+
+    const order = await fetchCallerOrder(request, claims, orderId);
+    if (!order || order.userId !== claims.userId) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    if (parseOrderStatus(order.status) !== OrderStatus.Pending) {
+      return NextResponse.json(
+        { error: 'Promo codes can only be used on unpaid orders' },
+        { status: 400 }
+      );
+    }
+
+    const promotion = await getPromotionByCode(code);
+    if (!promotion) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      );
+    }
+    assertPromotionAvailable(promotion, new Date(), orderId);
+
+    const lines = order.items.map(item => ({
+      productId: item.productId,
+      unitPrice: item.price,
+      quantity: item.quantity,
+    }));
+
+    const rule = toPromotionRule(promotion);
+    const result = calculateDiscount(rule, lines);
+    // Don't use up a code that takes nothing off
+    if (result.amount === 0 && !result.freeShipping) {
+      return NextResponse.json(
+        { error: result.message ?? 'This promo code does not apply to your order' },
+        { status: 400 }
+      );
+    }
+
+    await redeemPromotion(promotion.code, orderId, claims.userId);
+
+    return NextResponse.json(
+      { promotion: rule, discount: result.amount, freeShipping: result.freeShipping },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof PromotionUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error redeeming promo code:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeem promo code' },
+      { status: 500 }
+    );
+  }
+}
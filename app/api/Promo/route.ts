@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../lib/auth/server';
+import {
+  createPromotion,
+  InvalidPromotionError,
+  listPromotions,
+  PromotionConflictError,
+} from '../../lib/promotions/repository';
+import { validatePromotionInput } from '../../lib/promotions/validation';
+
+// GET /api/Promo - Fetch all promo codes with their redemptions
+export async function GET(request: NextRequest) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const promotions = await listPromotions();
+    return NextResponse.json(promotions, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching promotions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promotions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/Promo - Create a promo code
+export async function POST(request: NextRequest) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validatePromotionInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const promotion = await createPromotion(validation.data);
+
+    return NextResponse.json(promotion, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidPromotionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PromotionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error creating promotion:', error);
+    return NextResponse.json(
+      { error: 'Failed to create promotion' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, requireAdmin } from '../../../lib/auth/server';
+import { getReturn, ReturnStatusError, updateReturnStatus } from '../../../lib/returns/repository';
+import { validateReturnStatusInput } from '../../../lib/returns/validation';
+
+// GET /api/Returns/[id] - One return, for its owner or an admin
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid return ID' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getReturn(id);
+    if (!found || (found.userId !== claims.userId && claims.role !== 'admin')) {
+      return NextResponse.json(
+        { error: 'Return not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(found, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching return:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch return' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/Returns/[id] - Move a return on to its next status
+// Body: { status }. Returns go requested → approved → received → refunded, one step at a time.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authError = requireAdmin(request);
+    if (authError) return authError;
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid return ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateReturnStatusInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const updated = await updateReturnStatus(id, validation.data);
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Return not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    if (error instanceof ReturnStatusError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error updating return:', error);
+    return NextResponse.json(
+      { error: 'Failed to update return' },
+      { status: 500 }
+    );
+  }
+}
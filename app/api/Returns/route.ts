@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../lib/auth/server';
+import { fetchCallerOrder } from '../../lib/orders/backend';
+import { getOrderDiscount } from '../../lib/orders/charge';
+import { OrderStatus, parseOrderStatus } from '../../lib/orders/status';
+import { createReturn, InvalidReturnError, listReturns, type ReturnItemInput } from '../../lib/returns/repository';
+import { isReturnStatus } from '../../lib/returns/status';
+import { validateReturnInput } from '../../lib/returns/validation';
+
+// GET /api/Returns - The caller's returns, newest first; admins see everyone's
+// Query: orderId?, status?
+export async function GET(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const orderId = parseInt(searchParams.get('orderId') ?? '');
+    const status = searchParams.get('status');
+
+    const returns = await listReturns({
+      userId: claims.role === 'admin' ? undefined : claims.userId,
+      orderId: isNaN(orderId) ? undefined : orderId,
+      status: isReturnStatus(status) ? status : undefined,
+    });
+    return NextResponse.json(returns, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching returns:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch returns' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/Returns - Request a return for items of a delivered order and get its RMA number
+// Body: { orderId, items: [{ orderItemId, quantity, exchangeVariantId? }], resolution, reason,
+// comment?, fromAddress? }. Each line's product, price and ordered quantity are taken from the
+// order, loaded from the backend with the caller's token.
+export async function POST(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateReturnInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const order = await fetchCallerOrder(request, claims, validation.data.orderId);
+    if (!order || order.userId !== claims.userId) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    if (parseOrderStatus(order.status) !== OrderStatus.Delivered) {
+      return NextResponse.json(
+        { error: 'Only delivered orders can be returned' },
+        { status: 400 }
+      );
+    }
+
+    // Refunds give back what was paid, so each line loses its share of the order's promo discount,
+    // split the same way tax is
+    const subtotal = order.items.reduce((total, item) => total + item.price * item.quantity, 0);
+    const discount = await getOrderDiscount(order);
+    const discountShare = subtotal > 0 ? Math.min(discount.amount, subtotal) / subtotal : 0;
+
+    const items: ReturnItemInput[] = [];
+    for (const requested of validation.data.items) {
+      const line = order.items.find(item => item.id === requested.orderItemId);
+      if (!line) {
+        return NextResponse.json(
+          { error: `Item ${requested.orderItemId} is not part of order #${order.id}` },
+          { status: 400 }
+        );
+      }
+      items.push({
+        ...requested,
+        productId: line.productId,
+        variantId: line.variantId ?? undefined,
+        productName: line.productName,
+        size: line.size || undefined,
+        color: line.color || undefined,
+        price: line.price,
+        orderedQuantity: line.quantity,
+        unitRefund: line.price * (1 - discountShare),
+      });
+    }
+
+    const created = await createReturn(claims.userId, { ...validation.data, items });
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvalidReturnError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating return:', error);
+    return NextResponse.json(
+      { error: 'Failed to create return' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../lib/auth/server';
+import { removeSavedItem } from '../../../lib/savedItems/repository';
+
+// DELETE /api/SavedItems/[id] - Remove an item from the caller's saved list and return the updated list
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid saved item ID' },
+        { status: 400 }
+      );
+    }
+
+    const items = await removeSavedItem(claims.userId, id);
+    if (!items) {
+      return NextResponse.json(
+        { error: 'Saved item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(items, { status: 200 });
+  } catch (error) {
+    console.error('Error removing saved item:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove saved item' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../lib/auth/server';
+import { InvalidSavedItemError, listSavedItems, saveItem } from '../../lib/savedItems/repository';
+import { validateSavedItemInput } from '../../lib/savedItems/validation';
+
+// GET /api/SavedItems - The caller's save-for-later list
+export async function GET(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const items = await listSavedItems(claims.userId);
+    return NextResponse.json(items, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching saved items:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved items' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/SavedItems - Save an item for later and return the updated list
+// Body: { productId, variantId?, quantity? }
+export async function POST(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    const validation = validateSavedItemInput(body);
+    if (validation.error !== undefined) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const items = await saveItem(claims.userId, validation.data);
+    return NextResponse.json(items, { status: 200 });
+  } catch (error) {
+    if (error instanceof InvalidSavedItemError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error saving item:', error);
+    return NextResponse.json(
+      { error: 'Failed to save item' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../../lib/auth/server';
+import { removeFromWishlist } from '../../../lib/wishlist/repository';
+
+// DELETE /api/Wishlist/[productId] - Remove a product from the caller's wishlist and return the updated list
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { productId: productIdParam } = await params;
+    const productId = parseInt(productIdParam);
+    if (isNaN(productId)) {
+      return NextResponse.json(
+        { error: 'Invalid product ID' },
+        { status: 400 }
+      );
+    }
+
+    const items = await removeFromWishlist(claims.userId, productId);
+    if (!items) {
+      return NextResponse.json(
+        { error: 'Product is not on the wishlist' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(items, { status: 200 });
+  } catch (error) {
+    console.error('Error removing from wishlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove from wishlist' },
+      { status: 500 }
+    );
+  }
+}
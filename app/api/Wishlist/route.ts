@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '../../lib/auth/server';
+import { addToWishlist, InvalidWishlistItemError, listWishlist } from '../../lib/wishlist/repository';
+
+// GET /api/Wishlist - The caller's wishlist
+export async function GET(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const items = await listWishlist(claims.userId);
+    return NextResponse.json(items, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch wishlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/Wishlist - Add a product to the caller's wishlist and return the updated list
+// Body: { productId }
+export async function POST(request: NextRequest) {
+  try {
+    const claims = authenticate(request);
+    if (claims?.userId === undefined) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    // Validation
+    if (typeof body.productId !== 'number' || !Number.isInteger(body.productId) || body.productId <= 0) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const items = await addToWishlist(claims.userId, body.productId);
+    return NextResponse.json(items, { status: 200 });
+  } catch (error) {
+    if (error instanceof InvalidWishlistItemError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error adding to wishlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to add to wishlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,46 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
 import Toast from '../components/UI/Toast';
 import Header from '../components/Header/Header';
+import PriceTag from '../components/Product/PriceTag';
+import StockBadge from '../components/Product/StockBadge';
+import SavedForLater from '../components/Cart/SavedForLater';
+import LineTax from '../components/Tax/LineTax';
+import TaxSummary from '../components/Tax/TaxSummary';
+import { getAvailableStock } from '../lib/products/stock';
+import { describePromotion } from '../lib/promotions/discounts';
+import { getLineTax } from '../lib/tax/calculate';
 
 export default function CartPage() {
   const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+  const [promoInput, setPromoInput] = useState('');
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
   const { isAuthenticated, isLoading: authLoading } = useAuth();
-  const { cart, isLoading, removeFromCart, updateCartItem, getTotalPrice, getTotalItems } = useCart();
+  const {
+    cart,
+    isLoading,
+    products,
+    removeFromCart,
+    updateCartItem,
+    isItemPending,
+    isSyncing,
+    saveForLater,
+    getItemPrice,
+    getSubtotal,
+    getTotalPrice,
+    getTaxBreakdown,
+    getTotalSavings,
+    getTotalItems,
+    promotion,
+    applyPromoCode,
+    removePromoCode,
+    getDiscount,
+  } = useCart();
   const router = useRouter();
 
   const showToast = (message: string, type: 'success' | 'error') => {
@@ -22,14 +51,26 @@ export default function CartPage() {
     setToast({ ...toast, isVisible: false });
   };
 
-  useEffect(() => {
-    if (!authLoading && !isAuthenticated) {
-      router.push('/login');
-    }
-  }, [isAuthenticated, authLoading, router]);
+  // Current stock for the products in the cart, so quantities can be capped
+  const getItemStock = (productId: number, variantId?: number) => {
+    const product = products[productId];
+    return product ? getAvailableStock(product, variantId) : undefined;
+  };
+
+  const hasStockProblem = cart?.items.some(item => {
+    const available = getItemStock(item.productId, item.variantId);
+    return available !== undefined && item.quantity > available;
+  }) ?? false;
 
   const handleQuantityChange = async (cartItemId: number, newQuantity: number) => {
     if (newQuantity < 1) return;
+
+    const item = cart?.items.find(i => i.id === cartItemId);
+    const available = item ? getItemStock(item.productId, item.variantId) : undefined;
+    if (available !== undefined && newQuantity > available && newQuantity > (item?.quantity ?? 0)) {
+      showToast(`Only ${available} in stock`, 'error');
+      return;
+    }
     
     const success = await updateCartItem(cartItemId, newQuantity);
     if (!success) {
@@ -46,6 +87,34 @@ export default function CartPage() {
     }
   };
 
+  const handleSaveForLater = async (cartItemId: number) => {
+    const success = await saveForLater(cartItemId);
+    if (success) {
+      showToast('Saved for later', 'success');
+    } else {
+      showToast('Failed to save item for later', 'error');
+    }
+  };
+
+  const handleApplyPromo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!promoInput.trim()) return;
+
+    setIsApplyingPromo(true);
+    const result = await applyPromoCode(promoInput.trim());
+    setIsApplyingPromo(false);
+
+    if (result.success) {
+      setPromoInput('');
+      showToast('Promo code applied!', 'success');
+    } else {
+      showToast(result.error ?? 'Failed to apply promo code', 'error');
+    }
+  };
+
+  const discount = getDiscount();
+  const tax = getTaxBreakdown();
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -66,10 +135,6 @@ export default function CartPage() {
       </>
     );
   }
-  
-  if (!isAuthenticated) {
-    return null; // This will trigger the redirect in useEffect
-  }
 
   return (
     <>
@@ -116,60 +181,99 @@ export default function CartPage() {
                   </div>
                   
                   <div className="divide-y divide-gray-200">
-                    {cart.items.map((item) => (
-                      <div key={item.id} className="p-6 flex items-start space-x-4">
-                        {item.productImage && (
-                          <img
-                            src={item.productImage}
-                            alt={item.productName}
-                            className="w-20 h-20 object-cover rounded-md"
-                          />
-                        )}
-                        <div className="flex-1 min-w-0">
-                          <h3 className="text-lg font-medium text-gray-900">
-                            {item.productName}
-                          </h3>
-                          <p className="text-sm text-gray-600 mt-1">
-                            {item.productDescription}
-                          </p>
-                          <div className="mt-2 flex items-center">
-                            <span className="text-lg font-bold text-green-600">
-                              {formatPrice(item.price)}
-                            </span>
-                          </div>
-                        </div>
-                        
-                        <div className="flex items-center space-x-3">
-                          <div className="flex items-center border border-gray-300 rounded-md">
+                    {cart.items.map((item) => {
+                      const available = getItemStock(item.productId, item.variantId);
+                      const isPending = isItemPending(item.id);
+                      return (
+                        <div
+                          key={item.id}
+                          className={`p-6 flex items-start space-x-4 transition-opacity ${isPending ? 'opacity-70' : ''}`}
+                          aria-busy={isPending}
+                        >
+                          {item.productImage && (
+                            <img
+                              src={item.productImage}
+                              alt={item.productName}
+                              className="w-20 h-20 object-cover rounded-md"
+                            />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <h3 className="text-lg font-medium text-gray-900">
+                              {item.productName}
+                            </h3>
+                            {(item.size || item.color) && (
+                              <p className="text-sm text-gray-500 mt-1">
+                                {[item.size && `Size: ${item.size}`, item.color && `Color: ${item.color}`].filter(Boolean).join(' · ')}
+                              </p>
+                            )}
+                            <p className="text-sm text-gray-600 mt-1">
+                              {item.productDescription}
+                            </p>
+                            <div className="mt-2 flex items-center gap-3">
+                              <PriceTag {...getItemPrice(item)} priceClassName="text-lg font-bold text-green-600" />
+                              <StockBadge stock={available} />
+                            </div>
+                            <LineTax
+                              tax={getLineTax(tax, item.productId, item.variantId)}
+                              name={tax.name}
+                              inclusive={tax.inclusive}
+                              className="mt-1"
+                            />
+                            {available !== undefined && item.quantity > available && (
+                              <p className="text-sm text-red-600 mt-1">
+                                {available === 0
+                                  ? 'No longer available. Please remove it to continue.'
+                                  : `Only ${available} available. Please lower the quantity.`}
+                              </p>
+                            )}
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
-                              className="px-2 py-1 text-gray-600 hover:bg-gray-100"
-                              disabled={item.quantity <= 1}
+                              onClick={() => handleSaveForLater(item.id)}
+                              disabled={isPending}
+                              className="mt-2 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
                             >
-                              -
+                              Save for later
                             </button>
-                            <span className="px-3 py-1 text-center min-w-[3rem]">
-                              {item.quantity}
-                            </span>
+                          </div>
+                          
+                          <div className="flex items-center space-x-3">
+                            {isPending && (
+                              <div
+                                className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"
+                                title="Saving..."
+                              ></div>
+                            )}
+                            <div className="flex items-center border border-gray-300 rounded-md">
+                              <button
+                                onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                                className="px-2 py-1 text-gray-600 hover:bg-gray-100"
+                                disabled={item.quantity <= 1}
+                              >
+                                -
+                              </button>
+                              <span className="px-3 py-1 text-center min-w-[3rem]">
+                                {item.quantity}
+                              </span>
+                              <button
+                                onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                                className="px-2 py-1 text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                                disabled={available !== undefined && item.quantity >= available}
+                              >
+                                +
+                              </button>
+                            </div>
+                            
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                              className="px-2 py-1 text-gray-600 hover:bg-gray-100"
+                              onClick={() => handleRemoveItem(item.id)}
+                              className="text-red-600 hover:text-red-800 p-1"
                             >
-                              +
+                              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
                             </button>
                           </div>
-                          
-                          <button
-                            onClick={() => handleRemoveItem(item.id)}
-                            className="text-red-600 hover:text-red-800 p-1"
-                          >
-                            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                          </button>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               </div>
@@ -182,25 +286,79 @@ export default function CartPage() {
                   <div className="space-y-3 mb-6">
                     <div className="flex justify-between">
                       <span>Subtotal ({getTotalItems()} items)</span>
-                      <span>{formatPrice(getTotalPrice())}</span>
+                      <span>{formatPrice(getSubtotal())}</span>
                     </div>
+                    {promotion && discount.amount > 0 && (
+                      <div className="flex justify-between text-green-700">
+                        <span>Discount ({promotion.code})</span>
+                        <span>-{formatPrice(discount.amount)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span>Shipping</span>
-                      <span>Free</span>
+                      <span className={discount.freeShipping ? '' : 'text-sm text-gray-500'}>
+                        {discount.freeShipping ? 'Free' : 'Calculated at checkout'}
+                      </span>
                     </div>
+                    <TaxSummary breakdown={tax} />
                     <div className="border-t pt-3">
                       <div className="flex justify-between font-bold text-lg">
                         <span>Total</span>
-                        <span>{formatPrice(getTotalPrice())}</span>
+                        <span>{formatPrice(getTotalPrice() + tax.addedTax)}</span>
                       </div>
+                      {getTotalSavings() > 0 && (
+                        <p className="text-sm text-red-600 text-right mt-1">
+                          You save {formatPrice(getTotalSavings())} on sale items
+                        </p>
+                      )}
                     </div>
                   </div>
 
+                  {/* Promo code */}
+                  <div className="mb-6">
+                    {promotion ? (
+                      <div className="flex items-start justify-between bg-green-50 border border-green-200 rounded-md p-3">
+                        <div>
+                          <p className="text-sm font-medium text-green-800">
+                            {promotion.code} · {describePromotion(promotion)}
+                          </p>
+                          {discount.message && (
+                            <p className="text-xs text-gray-600 mt-1">{discount.message}</p>
+                          )}
+                        </div>
+                        <button
+                          onClick={removePromoCode}
+                          className="text-sm text-gray-500 hover:text-red-600 ml-3"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ) : (
+                      <form onSubmit={handleApplyPromo} className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder="Promo code"
+                          value={promoInput}
+                          onChange={(e) => setPromoInput(e.target.value)}
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <button
+                          type="submit"
+                          disabled={isApplyingPromo || !promoInput.trim()}
+                          className="px-4 py-2 bg-gray-800 text-white rounded-md font-medium hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isApplyingPromo ? 'Applying...' : 'Apply'}
+                        </button>
+                      </form>
+                    )}
+                  </div>
+
                   <button
-                    onClick={() => router.push('/checkout')}
-                    className="w-full bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                    onClick={() => router.push(isAuthenticated ? '/checkout' : '/login?redirect=/checkout')}
+                    disabled={hasStockProblem || isSyncing}
+                    className="w-full bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Proceed to Checkout
+                    {isAuthenticated ? 'Proceed to Checkout' : 'Sign in to Checkout'}
                   </button>
                   
                   <Link
@@ -213,6 +371,8 @@ export default function CartPage() {
               </div>
             </div>
           )}
+
+          {!isLoading && <SavedForLater onToast={showToast} />}
         </div>
       </div>
 
@@ -1,53 +1,72 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { loadStripe } from '@stripe/stripe-js';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
 import { Elements } from '@stripe/react-stripe-js';
 import { useAuth } from '../contexts/AuthContext';
 import { useCart } from '../contexts/CartContext';
 import Header from '../components/Header/Header';
 import Toast from '../components/UI/Toast';
 import CheckoutForm from '../components/Checkout/CheckoutForm';
-
-// Initialize Stripe
-let stripePromise: Promise<any> | null = null;
-
-const getStripe = async () => {
-  if (!stripePromise) {
-    try {
-      // Get the publishable key from the backend
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Payment/config`);
-      const config = await response.json();
-      
-      if (config.publishableKey) {
-        stripePromise = loadStripe(config.publishableKey);
-      } else {
-        throw new Error('Stripe publishable key not found');
-      }
-    } catch (error) {
-      console.error('Failed to load Stripe config:', error);
-      throw error;
-    }
-  }
-  return stripePromise;
-};
+import CheckoutSteps, { type CheckoutStepItem } from '../components/Checkout/CheckoutSteps';
+import AddressForm from '../components/Checkout/AddressForm';
+import ShippingMethodPicker from '../components/Checkout/ShippingMethodPicker';
+import PriceTag from '../components/Product/PriceTag';
+import LineTax from '../components/Tax/LineTax';
+import TaxSummary from '../components/Tax/TaxSummary';
+import { CHECKOUT_ORDER_KEY, getStripe } from '../lib/payments/stripe';
+import { reconcilePaidOrder } from '../lib/payments/reconcile';
+import { getCartFingerprint, getCheckoutAttemptKey } from '../lib/payments/idempotency';
+import {
+  emptyShippingAddress,
+  formatAddressLines,
+  hasErrors,
+  normalizeContact,
+  normalizeShippingAddress,
+  validateContact,
+  validateShippingAddress,
+  type ContactInfo,
+  type FieldErrors,
+  type ShippingAddress,
+} from '../lib/checkout/address';
+import { DEFAULT_SHIPPING_METHOD, getShippingMethod, quoteShippingMethods } from '../lib/shipping/methods';
+import { getLineTax, type TaxBreakdown } from '../lib/tax/calculate';
+import { OrderStatus, parseOrderStatus } from '../lib/orders/status';
+import type { OrderCharge } from '../lib/orders/charge';
 
 interface Order {
   id: number;
   userId: number;
   totalAmount: number;
-  status: string;
+  status: string | number;
   items: OrderItem[];
   createdAt: string;
   updatedAt: string;
   stripePaymentIntentId?: string;
   stripeClientSecret?: string;
+  contact?: ContactInfo;
+  shippingAddress?: ShippingAddress;
+  shippingMethod?: string;
+  shippingCost?: number;
+  tax?: TaxBreakdown;
+}
+
+// Everything collected in the steps before payment, sent with the order placement
+interface DeliveryDetails {
+  contact: ContactInfo;
+  shippingAddress: ShippingAddress;
+  shippingMethod: string;
+  shippingCost: number;
 }
 
 interface OrderItem {
   id: number;
   productId: number;
+  variantId?: number;
+  size?: string;
+  color?: string;
   productName: string;
   productDescription: string;
   productImage?: string;
@@ -56,16 +75,60 @@ interface OrderItem {
   createdAt: string;
 }
 
-export default function CheckoutPage() {
+// Payment intents in these states can still be paid with their existing client secret
+const PAYABLE_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
+
+const isPendingOrder = (order: Order) => parseOrderStatus(order.status) === OrderStatus.Pending;
+
+type CheckoutStep = 'contact' | 'address' | 'shipping' | 'payment';
+
+const CHECKOUT_STEPS: CheckoutStepItem<CheckoutStep>[] = [
+  { id: 'contact', label: 'Contact' },
+  { id: 'address', label: 'Shipping address' },
+  { id: 'shipping', label: 'Shipping method' },
+  { id: 'payment', label: 'Payment' },
+];
+
+const inputClass = 'mt-1 w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function CheckoutContent() {
   const [order, setOrder] = useState<Order | null>(null);
   const [clientSecret, setClientSecret] = useState<string>('');
+  // What the server priced the order at, once payment has started; the summary and the Pay
+  // button both show it
+  const [charge, setCharge] = useState<OrderCharge | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [stripe, setStripe] = useState<any>(null);
   const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+  // Why an order opened from `?orderId=` can't be paid for here
+  const [resumeError, setResumeError] = useState<string | null>(null);
+  const [step, setStep] = useState<CheckoutStep>('contact');
+  const [contact, setContact] = useState<ContactInfo>({ email: '', phone: '' });
+  const [contactErrors, setContactErrors] = useState<FieldErrors<ContactInfo>>({});
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>(emptyShippingAddress);
+  const [addressErrors, setAddressErrors] = useState<FieldErrors<ShippingAddress>>({});
+  const [shippingMethod, setShippingMethod] = useState(DEFAULT_SHIPPING_METHOD);
   
-  const { isAuthenticated, token, isLoading: authLoading } = useAuth();
-  const { cart, getTotalPrice, getTotalItems, clearCart } = useCart();
+  const { user, isAuthenticated, token, isLoading: authLoading } = useAuth();
+  const {
+    cart,
+    getItemPrice,
+    getSubtotal,
+    getTotalPrice,
+    getTotalSavings,
+    getTotalItems,
+    clearCart,
+    fetchCart,
+    promotion,
+    removePromoCode,
+    getDiscount,
+    products,
+    getTaxBreakdown,
+  } = useCart();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set when finishing payment for an order placed earlier, instead of checking out the cart
+  const resumeOrderId = searchParams.get('orderId') ? parseInt(searchParams.get('orderId') as string) : null;
 
   const showToast = (message: string, type: 'success' | 'error') => {
     setToast({ isVisible: true, message, type });
@@ -77,15 +140,23 @@ export default function CheckoutPage() {
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
-      router.push('/login');
+      const checkoutPath = resumeOrderId !== null ? `/checkout?orderId=${resumeOrderId}` : '/checkout';
+      router.push(`/login?redirect=${encodeURIComponent(checkoutPath)}`);
     }
-  }, [isAuthenticated, authLoading, router]);
+  }, [isAuthenticated, authLoading, resumeOrderId, router]);
 
   useEffect(() => {
-    if (isAuthenticated && (!cart || cart.items.length === 0)) {
+    if (isAuthenticated && resumeOrderId === null && (!cart || cart.items.length === 0)) {
       router.push('/cart');
     }
-  }, [cart, isAuthenticated, router]);
+  }, [cart, isAuthenticated, resumeOrderId, router]);
+
+  // Start from the account email; the shopper can send the receipt elsewhere
+  useEffect(() => {
+    if (user?.email) {
+      setContact(current => current.email ? current : { ...current, email: user.email });
+    }
+  }, [user]);
 
   useEffect(() => {
     const initializeStripe = async () => {
@@ -100,7 +171,8 @@ export default function CheckoutPage() {
     initializeStripe();
   }, []);
 
-  const createOrder = async () => {
+  // Repeating a placement with the same key returns the order it created the first time
+  const createOrder = async (idempotencyKey: string, details: DeliveryDetails, tax: TaxBreakdown) => {
     if (!token) return null;
 
     try {
@@ -109,8 +181,9 @@ export default function CheckoutPage() {
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
+          'Idempotency-Key': idempotencyKey,
         },
-        body: JSON.stringify({}),
+        body: JSON.stringify({ ...details, tax }),
       });
 
       if (response.ok) {
@@ -124,17 +197,42 @@ export default function CheckoutPage() {
     }
   };
 
-  const createPaymentIntent = async (orderId: number) => {
-    if (!token) return null;
+  // Use the promo code on the order; the server prices the order's items and returns the discount
+  const redeemPromoCode = async (orderId: number): Promise<{ discount?: number; error?: string }> => {
+    if (!promotion) return { discount: 0 };
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Payment/create-payment-intent`, {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Promo/redeem`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ orderId }),
+        body: JSON.stringify({ code: promotion.code, orderId }),
+      });
+
+      const data = await response.json();
+      return response.ok ? { discount: data.discount } : { error: data.error ?? 'Promo code could not be applied' };
+    } catch (error) {
+      console.error('Error redeeming promo code:', error);
+      return { error: 'Promo code could not be applied' };
+    }
+  };
+
+  // The server prices the order and creates its payment intent for that amount
+  const createPaymentIntent = useCallback(async (
+    orderId: number,
+    idempotencyKey?: string
+  ): Promise<{ clientSecret: string; charge: OrderCharge } | null> => {
+    if (!token) return null;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Checkout/${orderId}/payment-intent`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+        },
       });
 
       if (response.ok) {
@@ -146,28 +244,118 @@ export default function CheckoutPage() {
       console.error('Error creating payment intent:', error);
       return null;
     }
+  }, [token]);
+
+  // What an order placed earlier is charged, for checking its existing payment intent against
+  const fetchCharge = useCallback(async (orderId: number): Promise<OrderCharge | null> => {
+    if (!token) return null;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Checkout/${orderId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        return await response.json();
+      } else {
+        console.error('Failed to price order:', response.status);
+        return null;
+      }
+    } catch (error) {
+      console.error('Error pricing order:', error);
+      return null;
+    }
+  }, [token]);
+
+  const handleContactSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validateContact(contact);
+    setContactErrors(errors);
+    if (!hasErrors(errors)) setStep('address');
+  };
+
+  const handleAddressSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const errors = validateShippingAddress(shippingAddress);
+    setAddressErrors(errors);
+    if (!hasErrors(errors)) setStep('shipping');
   };
 
+  // Every method that can deliver to the address, priced for the cart as it is now
+  const shippingQuotes = quoteShippingMethods(
+    {
+      lines: (cart?.items ?? []).map(item => ({
+        quantity: item.quantity,
+        unitPrice: getItemPrice(item).price,
+        weight: products[item.productId]?.weight,
+      })),
+      subtotal: getTotalPrice(),
+      country: shippingAddress.country,
+    },
+    { freeShipping: getDiscount().freeShipping }
+  );
+  // Falls back to the first method when the chosen one doesn't deliver to the new country
+  const selectedQuote = shippingQuotes.find(quote => quote.method.id === shippingMethod) ?? shippingQuotes[0];
+  const shippingCost = selectedQuote?.cost ?? 0;
+
+  // Estimated for the store's home region until the shopper has entered an address
+  const hasAddress = step === 'shipping' || step === 'payment';
+  const tax = getTaxBreakdown(
+    hasAddress ? { country: shippingAddress.country, state: shippingAddress.state } : undefined,
+    shippingCost
+  );
+  const orderTotal = getTotalPrice() + shippingCost + tax.addedTax;
+
+  // The cart's figures are an estimate until the server has priced the placed order
+  const summaryDiscount = charge ? charge.discount : getDiscount().amount;
+  const summaryPromoCode = charge ? charge.promoCode : promotion?.code;
+  const summaryShippingCost = charge ? charge.shippingCost : shippingCost;
+  const summaryTax = charge ? charge.tax : tax;
+
+  const getDeliveryDetails = (): DeliveryDetails => ({
+    contact: normalizeContact(contact),
+    shippingAddress: normalizeShippingAddress(shippingAddress),
+    shippingMethod: selectedQuote?.method.id ?? shippingMethod,
+    shippingCost,
+  });
+
   const handleProceedToPayment = async () => {
     setIsLoading(true);
     
     try {
+      const details = getDeliveryDetails();
+
+      // Retries of this attempt, e.g. after a dropped response, reuse its key and so its order
+      const attemptKey = getCheckoutAttemptKey(getCartFingerprint(cart?.items ?? [], details));
+
       // Create order from cart
-      const createdOrder = await createOrder();
+      const createdOrder = await createOrder(attemptKey, details, tax);
       if (!createdOrder) {
         showToast('Failed to create order', 'error');
         return;
       }
 
       setOrder(createdOrder);
+      sessionStorage.setItem(CHECKOUT_ORDER_KEY, String(createdOrder.id));
 
-      // Create payment intent
-      const paymentIntent = await createPaymentIntent(createdOrder.id);
+      const redemption = await redeemPromoCode(createdOrder.id);
+      if (redemption.error !== undefined) {
+        // The order carries no code, so the retry gets it back and is charged without one
+        removePromoCode();
+        showToast(`${redemption.error}. The code has been removed; review your total and try again.`, 'error');
+        return;
+      }
+
+      // Create payment intent; the server adds the amount to the key, so a changed total gets a new intent
+      const paymentIntent = await createPaymentIntent(createdOrder.id, `${attemptKey}:payment-intent`);
       if (!paymentIntent) {
         showToast('Failed to initialize payment', 'error');
         return;
       }
 
+      setCharge(paymentIntent.charge);
       setClientSecret(paymentIntent.clientSecret);
     } catch (error) {
       showToast('Failed to proceed to payment', 'error');
@@ -176,8 +364,111 @@ export default function CheckoutPage() {
     }
   };
 
-  const handlePaymentSuccess = () => {
-    showToast('Payment successful! Redirecting to orders...', 'success');
+  const fetchOrder = useCallback(async (orderId: number): Promise<Order | null> => {
+    if (!token) return null;
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        return await response.json();
+      } else {
+        console.error('Failed to fetch order:', response.status);
+        return null;
+      }
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      return null;
+    }
+  }, [token]);
+
+  // Pick up payment for an order placed earlier. Its payment intent is reused while it can
+  // still be paid and is for the amount the server prices the order at; otherwise a new one is
+  // created for the same order, so no duplicate is placed.
+  const resumeOrder = useCallback(async (orderId: number) => {
+    setIsLoading(true);
+
+    try {
+      const existingOrder = await fetchOrder(orderId);
+      if (!existingOrder) {
+        setResumeError('We couldn\'t find this order.');
+        return;
+      }
+
+      setOrder(existingOrder);
+      if (!isPendingOrder(existingOrder)) {
+        setResumeError('This order has already been paid for.');
+        return;
+      }
+
+      const orderCharge = await fetchCharge(existingOrder.id);
+      if (!orderCharge) {
+        setResumeError('We couldn\'t work out the total for this order. Please try again.');
+        return;
+      }
+
+      if (existingOrder.stripeClientSecret) {
+        const { paymentIntent } = await stripe.retrievePaymentIntent(existingOrder.stripeClientSecret);
+        if (paymentIntent) {
+          if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') {
+            setResumeError('Payment for this order has already been received.');
+            return;
+          }
+          if (
+            PAYABLE_INTENT_STATUSES.includes(paymentIntent.status) &&
+            paymentIntent.amount === Math.round(orderCharge.amount * 100)
+          ) {
+            setCharge(orderCharge);
+            setClientSecret(existingOrder.stripeClientSecret);
+            return;
+          }
+        }
+      }
+
+      const paymentIntent = await createPaymentIntent(existingOrder.id);
+      if (!paymentIntent) {
+        setResumeError('We couldn\'t start payment for this order. Please try again.');
+        return;
+      }
+
+      setCharge(paymentIntent.charge);
+      setClientSecret(paymentIntent.clientSecret);
+    } catch (error) {
+      console.error('Error resuming order:', error);
+      setResumeError('We couldn\'t load this order. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchOrder, fetchCharge, createPaymentIntent, stripe]);
+
+  // Stripe is needed to check the order's existing payment intent
+  const hasResumed = useRef(false);
+  useEffect(() => {
+    if (resumeOrderId === null || !token || !stripe || hasResumed.current) return;
+    hasResumed.current = true;
+
+    if (isNaN(resumeOrderId)) {
+      setResumeError('We couldn\'t find this order.');
+      return;
+    }
+
+    resumeOrder(resumeOrderId);
+  }, [resumeOrderId, token, stripe, resumeOrder]);
+
+  const handlePaymentSuccess = async (status: string, paymentIntentId?: string) => {
+    if (status !== 'succeeded') {
+      showToast('Your payment is processing. Redirecting to orders...', 'success');
+    } else {
+      showToast('Payment successful! Redirecting to orders...', 'success');
+      if (order && paymentIntentId && token) {
+        await reconcilePaidOrder({ orderId: order.id, paymentIntentId, token, clearCart, fetchCart });
+      }
+    }
+
     setTimeout(() => {
       router.push('/orders');
     }, 2000);
@@ -208,10 +499,42 @@ export default function CheckoutPage() {
     );
   }
 
-  if (!cart || cart.items.length === 0) {
+  if (resumeOrderId === null && (!cart || cart.items.length === 0)) {
     return null;
   }
 
+  // What the earlier steps collected, shown before paying. The details are fixed once the
+  // order is placed, since changing them would need a new order.
+  const deliveryReview = (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 mb-6 text-sm">
+      {([
+        { id: 'contact', label: 'Contact', lines: [contact.email, contact.phone].filter((line): line is string => Boolean(line)) },
+        { id: 'address', label: 'Ship to', lines: formatAddressLines(shippingAddress) },
+        { id: 'shipping', label: 'Method', lines: selectedQuote ? [selectedQuote.method.name] : [] },
+      ] as { id: CheckoutStep; label: string; lines: string[] }[]).map((section) => (
+        <div key={section.id} className="flex items-start justify-between p-4">
+          <div className="flex space-x-4">
+            <span className="w-16 text-gray-500">{section.label}</span>
+            <div className="text-gray-900">
+              {section.lines.map((line) => (
+                <p key={line}>{line}</p>
+              ))}
+            </div>
+          </div>
+          {!clientSecret && (
+            <button
+              type="button"
+              onClick={() => setStep(section.id)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Change
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
   return (
     <>
       <Header />
@@ -219,59 +542,274 @@ export default function CheckoutPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="mb-8">
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Checkout</h1>
-            <p className="text-gray-600">Complete your order with secure payment</p>
+            <p className="text-gray-600">
+              {resumeOrderId !== null
+                ? `Complete payment for order #${resumeOrderId}`
+                : 'Complete your order with secure payment'}
+            </p>
           </div>
 
+          {resumeOrderId === null && (
+            <CheckoutSteps
+              steps={CHECKOUT_STEPS}
+              current={step}
+              onSelect={clientSecret ? undefined : setStep}
+            />
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Order Summary */}
             <div className="bg-white rounded-lg shadow-md p-6">
               <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
               
-              <div className="space-y-4 mb-6">
-                {cart.items.map((item) => (
-                  <div key={item.id} className="flex items-center space-x-4">
-                    {item.productImage && (
-                      <img
-                        src={item.productImage}
-                        alt={item.productName}
-                        className="w-16 h-16 object-cover rounded-md"
-                      />
+              {resumeOrderId !== null ? (
+                order && (
+                  <>
+                    <div className="space-y-4 mb-6">
+                      {order.items.map((item) => (
+                        <div key={item.id} className="flex items-center space-x-4">
+                          {item.productImage && (
+                            <Image
+                              src={item.productImage}
+                              alt={item.productName}
+                              width={64}
+                              height={64}
+                              className="w-16 h-16 object-cover rounded-md"
+                            />
+                          )}
+                          <div className="flex-1">
+                            <h3 className="font-medium text-gray-900">{item.productName}</h3>
+                            <p className="text-sm text-gray-600">
+                              {[item.size, item.color].filter(Boolean).join(' / ')}
+                              {(item.size || item.color) && ' · '}
+                              Qty: {item.quantity}
+                            </p>
+                          </div>
+                          <div className="text-right font-medium text-gray-900">
+                            {formatPrice(item.price * item.quantity)}
+                            {charge && (
+                              <LineTax
+                                tax={getLineTax(charge.tax, item.productId, item.variantId)}
+                                name={charge.tax.name}
+                                inclusive={charge.tax.inclusive}
+                              />
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {charge && (
+                      <div className="border-t pt-4 space-y-2">
+                        {charge.discount > 0 && (
+                          <div className="flex justify-between text-green-700">
+                            <span>Discount{charge.promoCode && ` (${charge.promoCode})`}</span>
+                            <span>-{formatPrice(charge.discount)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span>Shipping ({getShippingMethod(order.shippingMethod)?.name ?? order.shippingMethod})</span>
+                          <span>{charge.shippingCost === 0 ? 'Free' : formatPrice(charge.shippingCost)}</span>
+                        </div>
+                        <TaxSummary breakdown={charge.tax} />
+                        <div className="flex justify-between font-bold text-lg">
+                          <span>Total</span>
+                          <span>{formatPrice(charge.amount)}</span>
+                        </div>
+                      </div>
+                    )}
+
+                    {order.shippingAddress && (
+                      <div className="border-t mt-4 pt-4 text-sm">
+                        <p className="font-medium text-gray-900 mb-1">Ship to</p>
+                        {formatAddressLines(order.shippingAddress).map((line) => (
+                          <p key={line} className="text-gray-600">{line}</p>
+                        ))}
+                      </div>
                     )}
-                    <div className="flex-1">
-                      <h3 className="font-medium text-gray-900">{item.productName}</h3>
-                      <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+                  </>
+                )
+              ) : cart && (
+                <>
+                  <div className="space-y-4 mb-6">
+                    {cart.items.map((item) => {
+                      const { price, compareAtPrice, percentOff } = getItemPrice(item);
+                      return (
+                        <div key={item.id} className="flex items-center space-x-4">
+                          {item.productImage && (
+                            <img
+                              src={item.productImage}
+                              alt={item.productName}
+                              className="w-16 h-16 object-cover rounded-md"
+                            />
+                          )}
+                          <div className="flex-1">
+                            <h3 className="font-medium text-gray-900">{item.productName}</h3>
+                            <p className="text-sm text-gray-600">
+                              {[item.size, item.color].filter(Boolean).join(' / ')}
+                              {(item.size || item.color) && ' · '}
+                              Qty: {item.quantity}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <PriceTag
+                              price={price * item.quantity}
+                              compareAtPrice={compareAtPrice !== undefined ? compareAtPrice * item.quantity : undefined}
+                              percentOff={percentOff}
+                              priceClassName="font-medium text-gray-900"
+                              className="justify-end"
+                            />
+                            <LineTax
+                              tax={getLineTax(summaryTax, item.productId, item.variantId)}
+                              name={summaryTax.name}
+                              inclusive={summaryTax.inclusive}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="border-t pt-4 space-y-2">
+                    <div className="flex justify-between">
+                      <span>Subtotal ({getTotalItems()} items)</span>
+                      <span>{formatPrice(getSubtotal())}</span>
                     </div>
-                    <div className="text-right">
-                      <p className="font-medium text-gray-900">
-                        {formatPrice(item.price * item.quantity)}
-                      </p>
+                    {summaryDiscount > 0 && (
+                      <div className="flex justify-between text-green-700">
+                        <span>Discount{summaryPromoCode && ` (${summaryPromoCode})`}</span>
+                        <span>-{formatPrice(summaryDiscount)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span>Shipping{selectedQuote && ` (${selectedQuote.method.name})`}</span>
+                      <span>{summaryShippingCost === 0 ? 'Free' : formatPrice(summaryShippingCost)}</span>
+                    </div>
+                    <TaxSummary breakdown={summaryTax} />
+                    <div className="flex justify-between font-bold text-lg border-t pt-2">
+                      <span>Total</span>
+                      <span>{formatPrice(charge?.amount ?? orderTotal)}</span>
                     </div>
+                    {getTotalSavings() > 0 && (
+                      <p className="text-sm text-red-600 text-right">
+                        You save {formatPrice(getTotalSavings())} on sale items
+                      </p>
+                    )}
                   </div>
-                ))}
-              </div>
-
-              <div className="border-t pt-4 space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal ({getTotalItems()} items)</span>
-                  <span>{formatPrice(getTotalPrice())}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Shipping</span>
-                  <span>Free</span>
-                </div>
-                <div className="flex justify-between font-bold text-lg border-t pt-2">
-                  <span>Total</span>
-                  <span>{formatPrice(getTotalPrice())}</span>
-                </div>
-              </div>
+                </>
+              )}
             </div>
 
-            {/* Payment Section */}
+            {/* Checkout Steps */}
             <div className="bg-white rounded-lg shadow-md p-6">
-              <h2 className="text-xl font-semibold mb-4">Payment</h2>
+              <h2 className="text-xl font-semibold mb-4">
+                {resumeOrderId !== null ? 'Payment' : CHECKOUT_STEPS.find(s => s.id === step)?.label}
+              </h2>
               
-              {!clientSecret ? (
+              {resumeOrderId === null && step === 'contact' ? (
+                <form onSubmit={handleContactSubmit} noValidate className="space-y-4">
+                  <div>
+                    <label htmlFor="contact-email" className="block text-sm font-medium text-gray-700">
+                      Email Address *
+                    </label>
+                    <input
+                      id="contact-email"
+                      name="email"
+                      type="email"
+                      autoComplete="email"
+                      value={contact.email}
+                      onChange={(e) => setContact({ ...contact, email: e.target.value })}
+                      className={`${inputClass} ${contactErrors.email ? 'border-red-500' : 'border-gray-300'}`}
+                    />
+                    {contactErrors.email && <p className="mt-1 text-sm text-red-600">{contactErrors.email}</p>}
+                  </div>
+                  <div>
+                    <label htmlFor="contact-phone" className="block text-sm font-medium text-gray-700">
+                      Phone
+                    </label>
+                    <input
+                      id="contact-phone"
+                      name="phone"
+                      type="tel"
+                      autoComplete="tel"
+                      value={contact.phone ?? ''}
+                      onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+                      className={`${inputClass} ${contactErrors.phone ? 'border-red-500' : 'border-gray-300'}`}
+                    />
+                    {contactErrors.phone ? (
+                      <p className="mt-1 text-sm text-red-600">{contactErrors.phone}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500">Optional, for delivery updates</p>
+                    )}
+                  </div>
+                  <button
+                    type="submit"
+                    className="w-full bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700"
+                  >
+                    Continue to Shipping
+                  </button>
+                </form>
+              ) : resumeOrderId === null && step === 'address' ? (
+                <form onSubmit={handleAddressSubmit} noValidate className="space-y-6">
+                  <AddressForm address={shippingAddress} errors={addressErrors} onChange={setShippingAddress} />
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => setStep('contact')}
+                      className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-md font-medium hover:bg-gray-200"
+                    >
+                      Back
+                    </button>
+                    <button
+                      type="submit"
+                      className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700"
+                    >
+                      Continue
+                    </button>
+                  </div>
+                </form>
+              ) : resumeOrderId === null && step === 'shipping' ? (
+                <div className="space-y-6">
+                  <ShippingMethodPicker
+                    quotes={shippingQuotes}
+                    selected={selectedQuote?.method.id ?? shippingMethod}
+                    onSelect={setShippingMethod}
+                  />
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => setStep('address')}
+                      className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-md font-medium hover:bg-gray-200"
+                    >
+                      Back
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setStep('payment')}
+                      className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700"
+                    >
+                      Continue to Payment
+                    </button>
+                  </div>
+                </div>
+              ) : resumeError ? (
                 <div className="space-y-4">
+                  <p className="text-gray-600">{resumeError}</p>
+                  <Link
+                    href="/orders"
+                    className="block w-full text-center bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700"
+                  >
+                    Back to Orders
+                  </Link>
+                </div>
+              ) : !clientSecret && resumeOrderId !== null ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                  <p className="text-gray-600">Loading your order...</p>
+                </div>
+              ) : !clientSecret ? (
+                <div className="space-y-4">
+                  {deliveryReview}
                   <p className="text-gray-600 mb-4">
                     Click below to proceed with secure payment processing.
                   </p>
@@ -292,23 +830,28 @@ export default function CheckoutPage() {
                 </div>
               ) : (
                 stripe && (
-                  <Elements 
-                    stripe={stripe} 
-                    options={{ 
-                      clientSecret,
-                      appearance: {
-                        theme: 'stripe',
-                      }
-                    }}
-                  >
-                    <CheckoutForm
-                      clientSecret={clientSecret}
-                      onSuccess={handlePaymentSuccess}
-                      onError={handlePaymentError}
-                      totalAmount={getTotalPrice()}
-                      order={order}
-                    />
-                  </Elements>
+                  <>
+                    {resumeOrderId === null && deliveryReview}
+                    <Elements 
+                      stripe={stripe} 
+                      options={{ 
+                        clientSecret,
+                        appearance: {
+                          theme: 'stripe',
+                        }
+                      }}
+                    >
+                      <CheckoutForm
+                        clientSecret={clientSecret}
+                        onSuccess={handlePaymentSuccess}
+                        onError={handlePaymentError}
+                        totalAmount={charge?.amount ?? orderTotal}
+                        order={order}
+                        contact={resumeOrderId !== null ? order?.contact : normalizeContact(contact)}
+                        shippingAddress={resumeOrderId !== null ? order?.shippingAddress : normalizeShippingAddress(shippingAddress)}
+                      />
+                    </Elements>
+                  </>
                 )
               )}
             </div>
@@ -324,4 +867,22 @@ export default function CheckoutPage() {
       />
     </>
   );
-}
\ No newline at end of file
+}
+
+export default function CheckoutPage() {
+  return (
+    <Suspense fallback={
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading...</p>
+          </div>
+        </div>
+      </>
+    }>
+      <CheckoutContent />
+    </Suspense>
+  );
+}
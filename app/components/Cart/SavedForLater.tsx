@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { useCart } from '../../contexts/CartContext';
+import PriceTag from '../Product/PriceTag';
+import StockBadge from '../Product/StockBadge';
+import { getPriceInfo } from '../../lib/products/pricing';
+import { getAvailableStock } from '../../lib/products/stock';
+
+interface SavedForLaterProps {
+  onToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// Items moved out of the cart with "Save for later", shown at today's price and stock
+export default function SavedForLater({ onToast }: SavedForLaterProps) {
+  const { savedItems, products, moveToCart, removeSavedItem } = useCart();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  if (savedItems.length === 0) return null;
+
+  const handleMoveToCart = async (savedItemId: number) => {
+    setBusyId(savedItemId);
+    const success = await moveToCart(savedItemId);
+    setBusyId(null);
+
+    if (success) {
+      onToast('Moved to cart', 'success');
+    } else {
+      onToast('Failed to move item to cart', 'error');
+    }
+  };
+
+  const handleRemove = async (savedItemId: number) => {
+    setBusyId(savedItemId);
+    const success = await removeSavedItem(savedItemId);
+    setBusyId(null);
+
+    if (!success) {
+      onToast('Failed to remove saved item', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md mt-8">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-xl font-semibold">Saved for later ({savedItems.length})</h2>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {savedItems.map((item) => {
+          const product = products[item.productId];
+          const variant = product?.variants?.find(v => v.id === item.variantId);
+          const available = product ? getAvailableStock(product, item.variantId) : undefined;
+          const image = variant?.image ?? product?.image;
+          const isBusy = busyId === item.id;
+
+          return (
+            <div key={item.id} className={`p-6 flex items-start space-x-4 ${isBusy ? 'opacity-70' : ''}`}>
+              {image && (
+                <div className="relative w-20 h-20 flex-shrink-0">
+                  <Image
+                    src={image}
+                    alt={product?.name ?? ''}
+                    fill
+                    className="object-cover rounded-md"
+                  />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                {product ? (
+                  <>
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {product.name}
+                    </h3>
+                    {(variant?.size || variant?.color) && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        {[variant.size && `Size: ${variant.size}`, variant.color && `Color: ${variant.color}`].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                    <div className="mt-2 flex items-center gap-3">
+                      <PriceTag {...getPriceInfo(product, item.variantId)} priceClassName="text-lg font-bold text-green-600" />
+                      <StockBadge stock={available} />
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">Quantity: {item.quantity}</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">Loading item details...</p>
+                )}
+              </div>
+
+              <div className="flex flex-col items-end space-y-2">
+                <button
+                  onClick={() => handleMoveToCart(item.id)}
+                  disabled={isBusy || !product || available === 0}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded-md font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Move to cart
+                </button>
+                <button
+                  onClick={() => handleRemove(item.id)}
+                  disabled={isBusy}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { COUNTRIES, type FieldErrors, type ShippingAddress } from '../../lib/checkout/address';
+
+interface AddressFormProps {
+  address: ShippingAddress;
+  errors: FieldErrors<ShippingAddress>;
+  onChange: (address: ShippingAddress) => void;
+}
+
+const inputClass = 'mt-1 w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Delivery address fields; validation happens in the page when the step is submitted
+export default function AddressForm({ address, errors, onChange }: AddressFormProps) {
+  const field = (name: keyof ShippingAddress, label: string, autoComplete: string, required = true) => (
+    <div>
+      <label htmlFor={`address-${name}`} className="block text-sm font-medium text-gray-700">
+        {label}{required && ' *'}
+      </label>
+      <input
+        id={`address-${name}`}
+        name={name}
+        type="text"
+        autoComplete={autoComplete}
+        value={address[name] ?? ''}
+        onChange={(e) => onChange({ ...address, [name]: e.target.value })}
+        className={`${inputClass} ${errors[name] ? 'border-red-500' : 'border-gray-300'}`}
+      />
+      {errors[name] && <p className="mt-1 text-sm text-red-600">{errors[name]}</p>}
+    </div>
+  );
+
+  const stateLabel = address.country === 'CA' ? 'Province' : address.country === 'GB' ? 'County' : 'State';
+
+  return (
+    <div className="space-y-4">
+      {field('fullName', 'Full name', 'shipping name')}
+
+      <div>
+        <label htmlFor="address-country" className="block text-sm font-medium text-gray-700">
+          Country *
+        </label>
+        <select
+          id="address-country"
+          name="country"
+          autoComplete="shipping country"
+          value={address.country}
+          onChange={(e) => onChange({ ...address, country: e.target.value })}
+          className={`${inputClass} bg-white ${errors.country ? 'border-red-500' : 'border-gray-300'}`}
+        >
+          {COUNTRIES.map(country => (
+            <option key={country.code} value={country.code}>{country.name}</option>
+          ))}
+        </select>
+        {errors.country && <p className="mt-1 text-sm text-red-600">{errors.country}</p>}
+      </div>
+
+      {field('line1', 'Street address', 'shipping address-line1')}
+      {field('line2', 'Apartment, suite, etc.', 'shipping address-line2', false)}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {field('city', 'City', 'shipping address-level2')}
+        {field('state', stateLabel, 'shipping address-level1', ['US', 'CA', 'AU'].includes(address.country))}
+        {field('postalCode', 'Postal code', 'shipping postal-code')}
+      </div>
+    </div>
+  );
+}
@@ -6,13 +6,19 @@ import {
   useStripe,
   useElements
 } from '@stripe/react-stripe-js';
+import type { ContactInfo, ShippingAddress } from '../../lib/checkout/address';
+import { toStripeShipping } from '../../lib/payments/stripe';
 
 interface CheckoutFormProps {
   clientSecret: string;
-  onSuccess: () => void;
+  // Called with the PaymentIntent status, e.g. `succeeded` or `processing`, and its id
+  onSuccess: (status: string, paymentIntentId?: string) => void;
   onError: (error: string) => void;
   totalAmount: number;
   order: any;
+  contact?: ContactInfo;
+  // Passed to Stripe as the payment's shipping details
+  shippingAddress?: ShippingAddress;
 }
 
 export default function CheckoutForm({ 
@@ -20,7 +26,9 @@ export default function CheckoutForm({
   onSuccess, 
   onError, 
   totalAmount,
-  order 
+  order,
+  contact,
+  shippingAddress
 }: CheckoutFormProps) {
   const stripe = useStripe();
   const elements = useElements();
@@ -46,10 +54,13 @@ export default function CheckoutForm({
     setMessage('');
 
     try {
-      const { error } = await stripe.confirmPayment({
+      const { error, paymentIntent } = await stripe.confirmPayment({
         elements,
         confirmParams: {
-          return_url: `${window.location.origin}/payment-success`,
+          // Stripe appends payment_intent and redirect_status; the order id lets the page name the order
+          return_url: `${window.location.origin}/payment-success${order?.id ? `?orderId=${order.id}` : ''}`,
+          shipping: shippingAddress ? toStripeShipping(shippingAddress, contact) : undefined,
+          receipt_email: contact?.email,
         },
         redirect: 'if_required'
       });
@@ -63,8 +74,8 @@ export default function CheckoutForm({
           onError('An unexpected error occurred');
         }
       } else {
-        // Payment succeeded
-        onSuccess();
+        // Payment confirmed without a redirect
+        onSuccess(paymentIntent?.status ?? 'succeeded', paymentIntent?.id);
       }
     } catch (err) {
       console.error('Payment confirmation error:', err);
@@ -0,0 +1,57 @@
+'use client';
+
+export interface CheckoutStepItem<T extends string> {
+  id: T;
+  label: string;
+}
+
+interface CheckoutStepsProps<T extends string> {
+  steps: CheckoutStepItem<T>[];
+  current: T;
+  // Called when an earlier step is clicked; omit to lock the steps
+  onSelect?: (step: T) => void;
+}
+
+// Numbered progress bar across the top of checkout; completed steps can be revisited
+export default function CheckoutSteps<T extends string>({ steps, current, onSelect }: CheckoutStepsProps<T>) {
+  const currentIndex = steps.findIndex(step => step.id === current);
+
+  return (
+    <ol className="flex items-center w-full mb-8">
+      {steps.map((step, index) => {
+        const isComplete = index < currentIndex;
+        const isCurrent = index === currentIndex;
+        const canSelect = isComplete && onSelect !== undefined;
+
+        return (
+          <li key={step.id} className={`flex items-center ${index < steps.length - 1 ? 'flex-1' : ''}`}>
+            <button
+              type="button"
+              onClick={() => canSelect && onSelect(step.id)}
+              disabled={!canSelect}
+              className="flex items-center space-x-2 disabled:cursor-default"
+            >
+              <span
+                className={`flex items-center justify-center h-8 w-8 rounded-full text-sm font-medium ${
+                  isCurrent
+                    ? 'bg-blue-600 text-white'
+                    : isComplete
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-200 text-gray-600'
+                }`}
+              >
+                {isComplete ? '✓' : index + 1}
+              </span>
+              <span className={`hidden sm:inline text-sm font-medium ${isCurrent ? 'text-gray-900' : 'text-gray-600'} ${canSelect ? 'hover:text-blue-600' : ''}`}>
+                {step.label}
+              </span>
+            </button>
+            {index < steps.length - 1 && (
+              <div className={`flex-1 h-0.5 mx-3 ${isComplete ? 'bg-green-600' : 'bg-gray-200'}`} />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import type { ShippingQuote } from '../../lib/shipping/methods';
+
+interface ShippingMethodPickerProps {
+  quotes: ShippingQuote[];
+  selected: string;
+  onSelect: (methodId: string) => void;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(price);
+};
+
+export default function ShippingMethodPicker({ quotes, selected, onSelect }: ShippingMethodPickerProps) {
+  return (
+    <div className="space-y-3">
+      {quotes.map(({ method, cost }) => (
+        <label
+          key={method.id}
+          className={`flex items-center justify-between p-4 border rounded-lg cursor-pointer ${
+            selected === method.id ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          <div className="flex items-center space-x-3">
+            <input
+              type="radio"
+              name="shippingMethod"
+              value={method.id}
+              checked={selected === method.id}
+              onChange={() => onSelect(method.id)}
+              className="h-4 w-4 text-blue-600"
+            />
+            <div>
+              <p className="font-medium text-gray-900">{method.name}</p>
+              <p className="text-sm text-gray-600">{method.description}</p>
+            </div>
+          </div>
+          <span className="font-medium text-gray-900">{cost === 0 ? 'Free' : formatPrice(cost)}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
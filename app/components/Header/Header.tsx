@@ -4,12 +4,14 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useAuth } from '../../contexts/AuthContext';
 import { useCart } from '../../contexts/CartContext';
+import { useWishlist } from '../../contexts/WishlistContext';
 
 export default function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
-  const { user, isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, isAdmin, logout } = useAuth();
   const { getTotalItems } = useCart();
+  const { getWishlistCount } = useWishlist();
 
   useEffect(() => {
     setMounted(true);
@@ -20,6 +22,7 @@ export default function Header() {
   };
 
   const cartItemCount = getTotalItems();
+  const wishlistCount = getWishlistCount();
 
   if (!mounted) {
     return (
@@ -63,25 +66,43 @@ export default function Header() {
                 Orders
               </Link>
             )}
+            {isAdmin && (
+              <Link href="/admin" className="text-gray-700 hover:text-blue-600 px-3 py-2 text-sm font-medium">
+                Admin
+              </Link>
+            )}
           </nav>
 
           {/* User Actions */}
           <div className="flex items-center space-x-4">
-            {isAuthenticated && (
-              <Link
-                href="/cart"
-                className="relative text-gray-700 hover:text-blue-600 p-2"
-              >
-                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4m0 0L7 13m0 0l-1.293 1.293A1 1 0 005 15h12m0 0a2 2 0 104 0m-4 0a2 2 0 104 0" />
-                </svg>
-                {cartItemCount > 0 && (
-                  <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                    {cartItemCount}
-                  </span>
-                )}
-              </Link>
-            )}
+            <Link
+              href="/wishlist"
+              className="relative text-gray-700 hover:text-red-500 p-2"
+              aria-label="Wishlist"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+              </svg>
+              {wishlistCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                  {wishlistCount}
+                </span>
+              )}
+            </Link>
+
+            <Link
+              href="/cart"
+              className="relative text-gray-700 hover:text-blue-600 p-2"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4m0 0L7 13m0 0l-1.293 1.293A1 1 0 005 15h12m0 0a2 2 0 104 0m-4 0a2 2 0 104 0" />
+              </svg>
+              {cartItemCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                  {cartItemCount}
+                </span>
+              )}
+            </Link>
 
             {isAuthenticated ? (
               <div className="flex items-center space-x-3">
@@ -136,14 +157,20 @@ export default function Header() {
                 Products
               </Link>
               {isAuthenticated && (
-                <>
-                  <Link href="/orders" className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
-                    Orders
-                  </Link>
-                  <Link href="/cart" className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
-                    Cart {cartItemCount > 0 && `(${cartItemCount})`}
-                  </Link>
-                </>
+                <Link href="/orders" className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
+                  Orders
+                </Link>
+              )}
+              <Link href="/cart" className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
+                Cart {cartItemCount > 0 && `(${cartItemCount})`}
+              </Link>
+              <Link href="/wishlist" className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
+                Wishlist {wishlistCount > 0 && `(${wishlistCount})`}
+              </Link>
+              {isAdmin && (
+                <Link href="/admin" className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50">
+                  Admin
+                </Link>
               )}
             </div>
           </div>
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from 'react';
+
+interface CancelReasonFormProps {
+  // Preset reasons offered in the dropdown; "Other" with a free-text note is always added
+  reasons: string[];
+  onSubmit: (reason: string) => void;
+  onClose: () => void;
+  isSubmitting?: boolean;
+}
+
+const OTHER = 'Other';
+
+export default function CancelReasonForm({ reasons, onSubmit, onClose, isSubmitting = false }: CancelReasonFormProps) {
+  const [selected, setSelected] = useState('');
+  const [note, setNote] = useState('');
+
+  const reason = selected === OTHER ? note.trim() : selected;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason) onSubmit(reason);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">
+        Why is this order being cancelled? *
+      </label>
+      <select
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Choose a reason…</option>
+        {[...reasons, OTHER].map((option) => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+      {selected === OTHER && (
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          rows={2}
+          placeholder="Tell us more"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded-md hover:bg-gray-200"
+        >
+          Keep Order
+        </button>
+        <button
+          type="submit"
+          disabled={!reason || isSubmitting}
+          className="text-sm bg-red-600 text-white px-3 py-1 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Cancelling...' : 'Cancel Order'}
+        </button>
+      </div>
+    </form>
+  );
+}
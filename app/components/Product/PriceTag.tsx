@@ -0,0 +1,38 @@
+import type { PriceInfo } from '../../lib/products/pricing';
+
+interface PriceTagProps extends PriceInfo {
+  // Classes for the current price, e.g. its size and colour outside of a sale
+  priceClassName?: string;
+  className?: string;
+}
+
+export default function PriceTag({
+  price,
+  compareAtPrice,
+  percentOff,
+  priceClassName = 'text-xl font-bold text-gray-900',
+  className = '',
+}: PriceTagProps) {
+  const formatPrice = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(value);
+  };
+
+  if (compareAtPrice === undefined) {
+    return <span className={`${priceClassName} ${className}`}>{formatPrice(price)}</span>;
+  }
+
+  return (
+    <span className={`inline-flex flex-wrap items-baseline gap-x-2 ${className}`}>
+      <span className={`${priceClassName} !text-red-600`}>{formatPrice(price)}</span>
+      <span className="text-sm text-gray-500 line-through">{formatPrice(compareAtPrice)}</span>
+      {percentOff !== undefined && percentOff > 0 && (
+        <span className="self-center px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+          -{percentOff}%
+        </span>
+      )}
+    </span>
+  );
+}
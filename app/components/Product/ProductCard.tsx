@@ -1,5 +1,11 @@
+'use client';
+
 import Image from 'next/image';
-import Link from 'next/link';
+import PriceTag from './PriceTag';
+import StockBadge from './StockBadge';
+import WishlistButton from './WishlistButton';
+import { getPriceInfo } from '../../lib/products/pricing';
+import { getAvailableStock, getStockStatus } from '../../lib/products/stock';
 
 interface ProductCardProps {
   product: {
@@ -7,20 +13,26 @@ interface ProductCardProps {
     name: string;
     description: string;
     price: number;
+    salePrice?: number;
+    saleStartsAt?: string;
+    saleEndsAt?: string;
     image?: string;
+    stock?: number;
+    variants?: { id: number; price?: number; stock?: number }[];
   };
+  onSelect: () => void;
+  onAddToCart: () => void;
 }
 
-export default function ProductCard({ product }: ProductCardProps) {
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(price);
-  };
+export default function ProductCard({ product, onSelect, onAddToCart }: ProductCardProps) {
+  const pricing = getPriceInfo(product);
+  const stock = getAvailableStock(product);
+  const isOutOfStock = getStockStatus(stock) === 'out_of_stock';
+  // Products with variants need a size/color picked before they can go in the cart
+  const needsOptions = !!product.variants?.length;
 
   return (
-    <Link href={`/products/${product.id}`} className="group">
+    <div onClick={onSelect} className="group cursor-pointer">
       <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300">
         {/* Product Image */}
         <div className="relative h-64 bg-gray-200">
@@ -38,6 +50,16 @@ export default function ProductCard({ product }: ProductCardProps) {
               </svg>
             </div>
           )}
+          <StockBadge stock={stock} className="absolute top-2 left-2" />
+          <WishlistButton
+            productId={product.id}
+            className="absolute bottom-2 right-2 bg-white/90 rounded-full p-2 shadow"
+          />
+          {pricing.percentOff !== undefined && (
+            <span className="absolute top-2 right-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-600 text-white">
+              Sale
+            </span>
+          )}
         </div>
 
         {/* Product Info */}
@@ -48,16 +70,25 @@ export default function ProductCard({ product }: ProductCardProps) {
           <p className="text-gray-600 text-sm mb-3 line-clamp-2">
             {product.description}
           </p>
-          <div className="flex items-center justify-between">
-            <span className="text-xl font-bold text-gray-900">
-              {formatPrice(product.price)}
-            </span>
-            <button className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium">
-              Add to Cart
+          <div className="flex items-center justify-between gap-2">
+            <PriceTag {...pricing} />
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (needsOptions) {
+                  onSelect();
+                } else {
+                  onAddToCart();
+                }
+              }}
+              disabled={isOutOfStock}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isOutOfStock ? 'Sold Out' : needsOptions ? 'Choose Options' : 'Add to Cart'}
             </button>
           </div>
         </div>
       </div>
-    </Link>
+    </div>
   );
 }
\ No newline at end of file
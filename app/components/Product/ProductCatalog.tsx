@@ -0,0 +1,442 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Toast from '../UI/Toast';
+import { useRouter } from 'next/navigation';
+import ProductCard from './ProductCard';
+import ProductModal from './ProductModal';
+import Header from '../Header/Header';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import { getNextPriceChange } from '../../lib/products/pricing';
+import { getAvailableStock } from '../../lib/products/stock';
+
+interface ProductVariant {
+  id: number;
+  sku: string;
+  size?: string;
+  color?: string;
+  price?: number;
+  image?: string;
+  stock?: number;
+}
+
+interface Product {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
+  image?: string;
+  stock?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  variants?: ProductVariant[];
+}
+
+interface ProductPage {
+  items: Product[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest' },
+  { value: 'createdAt:asc', label: 'Oldest' },
+  { value: 'price:asc', label: 'Price: Low to High' },
+  { value: 'price:desc', label: 'Price: High to Low' },
+  { value: 'name:asc', label: 'Name: A to Z' },
+  { value: 'name:desc', label: 'Name: Z to A' },
+];
+
+interface ProductCatalogProps {
+  title: string;
+  subtitle: string;
+  // Category slug to scope the catalog to; its subcategories are included
+  category?: string;
+  subcategories?: { slug: string; name: string }[];
+  // Only show products whose sale is running
+  onSale?: boolean;
+}
+
+export default function ProductCatalog({ title, subtitle, category, subcategories = [], onSale = false }: ProductCatalogProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mounted, setMounted] = useState(false);
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
+  const [activeCategory, setActiveCategory] = useState(category);
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({ total: 0, totalPages: 1 });
+  
+  const { isAuthenticated, isAdmin, token } = useAuth();
+  const { cart, addToCart } = useCart();
+  const router = useRouter();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  const openProductModal = (product: Product) => {
+    setSelectedProduct(product);
+    setIsModalOpen(true);
+  };
+
+  const closeProductModal = () => {
+    setSelectedProduct(null);
+    setIsModalOpen(false);
+  };
+
+  const fetchProducts = useCallback(async () => {
+    const [sortField, sortOrder] = sort.split(':');
+    const params = new URLSearchParams({
+      sort: sortField,
+      order: sortOrder,
+      page: String(page),
+      limit: String(PAGE_SIZE),
+    });
+    if (activeCategory) params.set('category', activeCategory);
+    if (onSale) params.set('onSale', 'true');
+    if (search) params.set('q', search);
+    if (minPrice) params.set('minPrice', minPrice);
+    if (maxPrice) params.set('maxPrice', maxPrice);
+
+    setLoading(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product?${params}`);
+      if (response.ok) {
+        const data: ProductPage = await response.json();
+        setProducts(data.items);
+        setPagination({ total: data.total, totalPages: data.totalPages });
+        // Step back if a deletion emptied the page we were on
+        if (page > data.totalPages) setPage(data.totalPages);
+      } else {
+        console.error('Failed to fetch products:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeCategory, onSale, search, minPrice, maxPrice, sort, page]);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  // `?product={id}` opens that product straight away, so other pages can link to it
+  useEffect(() => {
+    const productId = parseInt(new URLSearchParams(window.location.search).get('product') ?? '');
+    if (isNaN(productId)) return;
+
+    const openLinkedProduct = async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${productId}`);
+        if (response.ok) {
+          setSelectedProduct(await response.json());
+          setIsModalOpen(true);
+        }
+      } catch (error) {
+        console.error('Error fetching linked product:', error);
+      }
+    };
+
+    openLinkedProduct();
+  }, []);
+
+  // Refetch when a sale on this page starts or ends so prices don't go stale
+  useEffect(() => {
+    const now = new Date();
+    const changes = products
+      .map(product => getNextPriceChange(product, now))
+      .filter((time): time is Date => !!time);
+    if (changes.length === 0) return;
+
+    const delay = Math.min(...changes.map(time => time.getTime())) - now.getTime();
+    // setTimeout can't wait longer than ~24.8 days
+    if (delay > 2 ** 31 - 1) return;
+
+    const timer = setTimeout(fetchProducts, delay + 1000);
+    return () => clearTimeout(timer);
+  }, [products, fetchProducts]);
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  if (!mounted) {
+    return (
+      <div className="bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 min-h-screen">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              {title}
+            </h1>
+            <p className="text-gray-600">
+              Loading... (Mounting)
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const handleAddToCart = async (productId: number, variantId?: number) => {
+    // Don't let the cart grow past what's on hand
+    const product = products.find(p => p.id === productId) ?? selectedProduct;
+    const available = product ? getAvailableStock(product, variantId) : undefined;
+    if (available !== undefined) {
+      const inCart = cart?.items
+        .filter(item => item.productId === productId && item.variantId === variantId)
+        .reduce((total, item) => total + item.quantity, 0) ?? 0;
+
+      if (inCart + 1 > available) {
+        showToast(available === 0 ? 'This item is out of stock' : `Only ${available} in stock`, 'error');
+        return;
+      }
+    }
+
+    const success = await addToCart({ productId, variantId }, 1);
+    if (success) {
+      showToast('Product added to cart!', 'success');
+    } else {
+      showToast('Failed to add product to cart', 'error');
+    }
+  };
+
+  // Product management lives in the admin area
+  const handleEdit = (product: Product) => {
+    router.push(`/admin/products?edit=${product.id}`);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!isAdmin) {
+      showToast('Only admins can manage products', 'error');
+      return;
+    }
+    
+    if (confirm('Are you sure you want to delete this product?')) {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${id}`, {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (response.ok) {
+          showToast('Product deleted successfully!', 'success');
+          fetchProducts();
+        } else {
+          showToast('Error deleting product', 'error');
+        }
+      } catch (error) {
+        showToast(`Error: ${error}`, 'error');
+      }
+    }
+  };
+
+  return (
+    <>
+      <Header />
+      <div className="bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {title}
+          </h1>
+          <p className="text-gray-600">
+            {subtitle}
+          </p>
+        </div>
+
+        {/* Subcategory chips */}
+        {subcategories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {[{ slug: category, name: 'All' }, ...subcategories].map((chip) => (
+              <button
+                key={chip.slug ?? ''}
+                onClick={() => {
+                  setActiveCategory(chip.slug);
+                  setPage(1);
+                }}
+                className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  activeCategory === chip.slug
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {chip.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Search, filter and sort controls */}
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6 grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <input
+            type="search"
+            placeholder="Search products..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="sm:col-span-2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Min $"
+              value={minPrice}
+              onChange={(e) => {
+                setMinPrice(e.target.value);
+                setPage(1);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Max $"
+              value={maxPrice}
+              onChange={(e) => {
+                setMaxPrice(e.target.value);
+                setPage(1);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          {pagination.total} product{pagination.total !== 1 ? 's' : ''}
+        </p>
+
+        {/* Product Grid */}
+        {loading && products.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-500">Loading products...</p>
+          </div>
+        ) : products.length > 0 ? (
+          <div className={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 ${loading ? 'opacity-60' : ''}`}>
+            {products.map((product) => (
+              <ProductCard
+                key={product.id}
+                product={product}
+                onSelect={() => openProductModal(product)}
+                onAddToCart={() => handleAddToCart(product.id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <div className="text-gray-500 mb-4">
+              <svg className="h-12 w-12 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+              </svg>
+              <p className="text-lg font-medium">No products found</p>
+              <p className="text-sm">
+                {search || minPrice || maxPrice
+                  ? 'Try a different search or price range'
+                  : onSale
+                    ? 'No sales are running right now'
+                    : 'Check back soon for new arrivals'}
+              </p>
+            </div>
+            {!process.env.NEXT_PUBLIC_API_BASE && (
+              <p className="text-xs text-red-500 mt-2">
+                API base URL not configured. Check your environment variables.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-center gap-4">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || loading}
+              className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages || loading}
+              className="px-3 py-1 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+      
+      {/* Toast Notification */}
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+      
+      {/* Product Detail Modal */}
+      <ProductModal
+        product={selectedProduct}
+        isOpen={isModalOpen}
+        onClose={closeProductModal}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+        onAddToCart={handleAddToCart}
+        isAdmin={isAdmin}
+      />
+      </div>
+    </>
+  );
+}
@@ -1,13 +1,33 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import PriceTag from './PriceTag';
+import StockBadge from './StockBadge';
+import WishlistButton from './WishlistButton';
+import { getPriceInfo } from '../../lib/products/pricing';
+import { getAvailableStock, getStockStatus } from '../../lib/products/stock';
+
+interface ProductVariant {
+  id: number;
+  sku: string;
+  size?: string;
+  color?: string;
+  price?: number;
+  image?: string;
+  stock?: number;
+}
 
 interface Product {
   id: number;
   name: string;
   description: string;
   price: number;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
   image?: string;
+  stock?: number;
+  variants?: ProductVariant[];
   createdAt?: string;
   updatedAt?: string;
 }
@@ -16,13 +36,26 @@ interface ProductModalProps {
   product: Product | null;
   isOpen: boolean;
   onClose: () => void;
-  onEdit: (product: Product) => void;
-  onDelete: (id: number) => void;
-  onAddToCart: (productId: number) => void;
-  isAuthenticated: boolean;
+  // Admin actions; the buttons only render for admins when a handler is given
+  onEdit?: (product: Product) => void;
+  onDelete?: (id: number) => void;
+  onAddToCart: (productId: number, variantId?: number) => void;
+  isAdmin: boolean;
 }
 
-export default function ProductModal({ product, isOpen, onClose, onEdit, onDelete, onAddToCart, isAuthenticated }: ProductModalProps) {
+const unique = (values: (string | undefined)[]) =>
+  values.filter((value, index): value is string => !!value && values.indexOf(value) === index);
+
+export default function ProductModal({ product, isOpen, onClose, onEdit, onDelete, onAddToCart, isAdmin }: ProductModalProps) {
+  const [selectedSize, setSelectedSize] = useState<string | null>(null);
+  const [selectedColor, setSelectedColor] = useState<string | null>(null);
+
+  // Start each product with a fresh selection
+  useEffect(() => {
+    setSelectedSize(null);
+    setSelectedColor(null);
+  }, [product?.id]);
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -43,12 +76,30 @@ export default function ProductModal({ product, isOpen, onClose, onEdit, onDelet
 
   if (!isOpen || !product) return null;
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(price);
-  };
+  const variants = product.variants ?? [];
+  const sizes = unique(variants.map(v => v.size));
+  const colors = unique(variants.map(v => v.color));
+  const hasVariants = variants.length > 0;
+
+  // A variant matches once every option it defines has been picked
+  const selectedVariant = hasVariants
+    ? variants.find(v =>
+        (sizes.length === 0 || v.size === selectedSize) &&
+        (colors.length === 0 || v.color === selectedColor)
+      ) ?? null
+    : null;
+
+  // An option is offered while at least one in-stock variant matches it
+  const isSizeAvailable = (size: string) =>
+    variants.some(v => v.size === size && (!selectedColor || v.color === selectedColor) && v.stock !== 0);
+  const isColorAvailable = (color: string) =>
+    variants.some(v => v.color === color && (!selectedSize || v.size === selectedSize) && v.stock !== 0);
+
+  const pricing = getPriceInfo(product, selectedVariant?.id);
+  const displayImage = selectedVariant?.image ?? product.image;
+  const stock = getAvailableStock(product, selectedVariant?.id);
+  const isOutOfStock = getStockStatus(stock) === 'out_of_stock';
+  const canAddToCart = (!hasVariants || !!selectedVariant) && !isOutOfStock;
 
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'N/A';
@@ -84,9 +135,9 @@ export default function ProductModal({ product, isOpen, onClose, onEdit, onDelet
             </svg>
           </button>
           
-          {product.image ? (
+          {displayImage ? (
             <img
-              src={product.image}
+              src={displayImage}
               alt={product.name}
               className="max-w-full max-h-full object-contain"
               onError={(e) => {
@@ -144,11 +195,64 @@ export default function ProductModal({ product, isOpen, onClose, onEdit, onDelet
               
               {/* Price */}
               <div className="bg-gradient-to-r from-green-50 to-emerald-50 p-4 rounded-lg border border-green-200">
-                <p className="text-2xl font-bold text-emerald-600">
-                  {formatPrice(product.price)}
-                </p>
+                <div className="flex items-center justify-between">
+                  <PriceTag {...pricing} priceClassName="text-2xl font-bold text-emerald-600" />
+                  <StockBadge stock={stock} />
+                </div>
+                {selectedVariant && (
+                  <p className="text-xs text-gray-500 mt-1 font-mono">SKU {selectedVariant.sku}</p>
+                )}
               </div>
 
+              {/* Variant pickers */}
+              {sizes.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    Size{selectedSize && <span className="font-normal text-gray-500">: {selectedSize}</span>}
+                  </h4>
+                  <div className="flex flex-wrap gap-2">
+                    {sizes.map((size) => (
+                      <button
+                        key={size}
+                        onClick={() => setSelectedSize(selectedSize === size ? null : size)}
+                        disabled={!isSizeAvailable(size)}
+                        className={`min-w-[2.5rem] px-3 py-1 text-sm border rounded-md transition-colors disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed ${
+                          selectedSize === size
+                            ? 'border-blue-600 bg-blue-600 text-white'
+                            : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                        }`}
+                      >
+                        {size}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {colors.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    Color{selectedColor && <span className="font-normal text-gray-500">: {selectedColor}</span>}
+                  </h4>
+                  <div className="flex flex-wrap gap-2">
+                    {colors.map((color) => (
+                      <button
+                        key={color}
+                        onClick={() => setSelectedColor(selectedColor === color ? null : color)}
+                        disabled={!isColorAvailable(color)}
+                        className={`px-3 py-1 text-sm border rounded-md transition-colors disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed ${
+                          selectedColor === color
+                            ? 'border-blue-600 bg-blue-600 text-white'
+                            : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                        }`}
+                      >
+                        {color}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Description */}
               <div>
                 <h4 className="font-semibold text-gray-900 mb-2 flex items-center">
@@ -192,12 +296,7 @@ export default function ProductModal({ product, isOpen, onClose, onEdit, onDelet
               {/* Like Instagram - add some interaction elements */}
               <div className="pt-4 border-t border-gray-100">
                 <div className="flex items-center space-x-4 mb-4">
-                  <button className="flex items-center space-x-1 text-gray-500 hover:text-red-500 transition-colors">
-                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
-                    </svg>
-                    <span className="text-sm">Like</span>
-                  </button>
+                  <WishlistButton productId={product.id} showLabel />
                   <button className="flex items-center space-x-1 text-gray-500 hover:text-blue-500 transition-colors">
                     <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.367 2.684 3 3 0 00-5.367-2.684z" />
@@ -214,43 +313,44 @@ export default function ProductModal({ product, isOpen, onClose, onEdit, onDelet
             <div className="flex space-x-2">
               <button
                 onClick={() => {
-                  onAddToCart(product.id);
+                  onAddToCart(product.id, selectedVariant?.id);
                   onClose();
                 }}
-                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all text-sm flex items-center justify-center space-x-2"
+                disabled={!canAddToCart}
+                className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all text-sm flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 3h2l.4 2M7 13h10l4-8H5.4m0 0L7 13m0 0l-1.293 1.293A1 1 0 005 15h12m0 0a2 2 0 104 0m-4 0a2 2 0 104 0" />
                 </svg>
-                <span>Add to Cart</span>
+                <span>{isOutOfStock ? 'Out of Stock' : canAddToCart ? 'Add to Cart' : 'Select Options'}</span>
               </button>
-              {isAuthenticated && (
-                <>
-                  <button
-                    onClick={() => {
-                      onEdit(product);
-                      onClose();
-                    }}
-                    className="flex-1 bg-emerald-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-emerald-700 focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 transition-all text-sm flex items-center justify-center space-x-2"
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                    </svg>
-                    <span>Edit</span>
-                  </button>
-                  <button
-                    onClick={() => {
-                      onDelete(product.id);
-                      onClose();
-                    }}
-                    className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-all text-sm flex items-center justify-center space-x-2"
-                  >
-                    <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                    <span>Delete</span>
-                  </button>
-                </>
+              {isAdmin && onEdit && (
+                <button
+                  onClick={() => {
+                    onEdit(product);
+                    onClose();
+                  }}
+                  className="flex-1 bg-emerald-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-emerald-700 focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 transition-all text-sm flex items-center justify-center space-x-2"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                  </svg>
+                  <span>Edit</span>
+                </button>
+              )}
+              {isAdmin && onDelete && (
+                <button
+                  onClick={() => {
+                    onDelete(product.id);
+                    onClose();
+                  }}
+                  className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-all text-sm flex items-center justify-center space-x-2"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                  <span>Delete</span>
+                </button>
               )}
             </div>
           </div>
@@ -0,0 +1,24 @@
+import { getStockStatus } from '../../lib/products/stock';
+
+interface StockBadgeProps {
+  stock?: number;
+  className?: string;
+}
+
+export default function StockBadge({ stock, className = '' }: StockBadgeProps) {
+  const status = getStockStatus(stock);
+
+  if (status === 'in_stock') return null;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+        status === 'out_of_stock'
+          ? 'bg-red-100 text-red-800'
+          : 'bg-amber-100 text-amber-800'
+      } ${className}`}
+    >
+      {status === 'out_of_stock' ? 'Out of stock' : `Only ${stock} left`}
+    </span>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { useWishlist } from '../../contexts/WishlistContext';
+
+interface WishlistButtonProps {
+  productId: number;
+  // Show "Save"/"Saved" next to the heart
+  showLabel?: boolean;
+  className?: string;
+}
+
+export default function WishlistButton({ productId, showLabel = false, className = '' }: WishlistButtonProps) {
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const [isToggling, setIsToggling] = useState(false);
+  const isSaved = isInWishlist(productId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards open the product modal on click; the heart shouldn't
+    e.stopPropagation();
+    setIsToggling(true);
+    await toggleWishlist(productId);
+    setIsToggling(false);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isToggling}
+      aria-pressed={isSaved}
+      aria-label={isSaved ? 'Remove from wishlist' : 'Add to wishlist'}
+      className={`flex items-center space-x-1 transition-colors disabled:opacity-60 ${
+        isSaved ? 'text-red-500 hover:text-red-600' : 'text-gray-500 hover:text-red-500'
+      } ${className}`}
+    >
+      <svg className="h-5 w-5" fill={isSaved ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+      </svg>
+      {showLabel && <span className="text-sm">{isSaved ? 'Saved' : 'Save'}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,84 @@
+import type { ReturnRecord } from '../../lib/db/store';
+import { formatAddressLines, type ShippingAddress } from '../../lib/checkout/address';
+
+interface ReturnLabelProps {
+  productReturn: ReturnRecord;
+}
+
+// Where every return is sent
+const RETURNS_ADDRESS: ShippingAddress = {
+  fullName: 'StyleHub Returns',
+  line1: '1200 Harbor Way',
+  line2: 'Dock 4',
+  city: 'Oakland',
+  state: 'CA',
+  postalCode: '94607',
+  country: 'US',
+};
+
+// The label the customer prints and sticks on the parcel, plus a packing slip to put inside it
+export default function ReturnLabel({ productReturn }: ReturnLabelProps) {
+  const itemCount = productReturn.items.reduce((total, item) => total + item.quantity, 0);
+
+  return (
+    <div className="bg-white border-2 border-dashed border-gray-400 rounded-lg p-6 print:border-solid print:rounded-none">
+      <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">Return label</p>
+          <p className="text-2xl font-bold text-gray-900">StyleHub</p>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <p>Order #{productReturn.orderId}</p>
+          <p>{itemCount} item{itemCount !== 1 ? 's' : ''}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 py-4 border-b border-gray-300 text-sm">
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-500 mb-1">From</p>
+          {productReturn.fromAddress ? (
+            formatAddressLines(productReturn.fromAddress).map((line) => (
+              <p key={line} className="text-gray-900">{line}</p>
+            ))
+          ) : (
+            <p className="text-gray-400">Write your name and address here</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs font-semibold uppercase text-gray-500 mb-1">Ship to</p>
+          {formatAddressLines(RETURNS_ADDRESS).map((line) => (
+            <p key={line} className="font-medium text-gray-900">{line}</p>
+          ))}
+        </div>
+      </div>
+
+      <div className="py-6 text-center">
+        <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">RMA number</p>
+        <p className="font-mono text-4xl font-bold tracking-widest text-gray-900">{productReturn.rmaNumber}</p>
+      </div>
+
+      <div className="border-t border-gray-300 pt-4 text-sm">
+        <p className="text-xs font-semibold uppercase text-gray-500 mb-2">Packing slip</p>
+        <ul className="space-y-1">
+          {productReturn.items.map((item) => (
+            <li key={item.orderItemId} className="flex justify-between text-gray-900">
+              <span>
+                {item.productName}
+                {(item.size || item.color) && (
+                  <span className="text-gray-500"> ({[item.size, item.color].filter(Boolean).join(' / ')})</span>
+                )}
+                {item.exchangeSize && (
+                  <span className="text-gray-500"> → exchange for {item.exchangeSize}</span>
+                )}
+              </span>
+              <span>× {item.quantity}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="mt-4 text-xs text-gray-500">
+          Put this slip in the parcel and write {productReturn.rmaNumber} on the outside of the box.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { ReturnStatusChange } from '../../lib/db/store';
+import { getReturnStatusLabel, RETURN_STATUSES, type ReturnResolution } from '../../lib/returns/status';
+
+interface ReturnProgressProps {
+  history: ReturnStatusChange[];
+  resolution: ReturnResolution;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Every return status as a step, with the time each one was reached
+export default function ReturnProgress({ history, resolution }: ReturnProgressProps) {
+  return (
+    <ol className="grid grid-cols-4 gap-2">
+      {RETURN_STATUSES.map((status) => {
+        const reached = history.find(change => change.status === status);
+        return (
+          <li key={status} className={`border-t-4 pt-2 ${reached ? 'border-blue-600' : 'border-gray-200'}`}>
+            <p className={`text-xs font-medium ${reached ? 'text-gray-900' : 'text-gray-400'}`}>
+              {getReturnStatusLabel(status, resolution)}
+            </p>
+            {reached && (
+              <time className="text-xs text-gray-500">{formatDate(reached.changedAt)}</time>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
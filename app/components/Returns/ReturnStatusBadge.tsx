@@ -0,0 +1,14 @@
+import { getReturnStatusLabel, RETURN_STATUS_COLORS, type ReturnResolution, type ReturnStatus } from '../../lib/returns/status';
+
+interface ReturnStatusBadgeProps {
+  status: ReturnStatus;
+  resolution: ReturnResolution;
+}
+
+export default function ReturnStatusBadge({ status, resolution }: ReturnStatusBadgeProps) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${RETURN_STATUS_COLORS[status]}`}>
+      {getReturnStatusLabel(status, resolution)}
+    </span>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+interface LineTaxProps {
+  tax: number;
+  name: string;
+  inclusive: boolean;
+  className?: string;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(price);
+};
+
+// The tax on one line, under its price: "incl. $2.00 VAT" or "+ $0.73 Sales tax"
+export default function LineTax({ tax, name, inclusive, className = '' }: LineTaxProps) {
+  if (tax === 0) return null;
+
+  return (
+    <p className={`text-xs text-gray-500 ${className}`}>
+      {inclusive ? `incl. ${formatPrice(tax)} ${name}` : `+ ${formatPrice(tax)} ${name}`}
+    </p>
+  );
+}
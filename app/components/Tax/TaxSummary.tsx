@@ -0,0 +1,34 @@
+'use client';
+
+import { formatTaxLabel, type TaxBreakdown } from '../../lib/tax/calculate';
+
+interface TaxSummaryProps {
+  breakdown: Omit<TaxBreakdown, 'lines' | 'addedTax'>;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(price);
+};
+
+// The tax row of an order summary. Tax already inside the prices is shown for information,
+// greyed out, since it isn't added to the total.
+export default function TaxSummary({ breakdown }: TaxSummaryProps) {
+  const label = `${breakdown.estimated ? 'Estimated ' : ''}${formatTaxLabel(breakdown)}`;
+
+  return (
+    <div className={breakdown.inclusive ? 'text-sm text-gray-500' : ''}>
+      <div className="flex justify-between">
+        <span>{breakdown.inclusive ? `Includes ${label}` : label}</span>
+        <span>{formatPrice(breakdown.totalTax)}</span>
+      </div>
+      {breakdown.shippingTax > 0 && (
+        <p className="text-xs text-gray-500 text-right">
+          {formatPrice(breakdown.shippingTax)} of it on shipping
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { decodeTokenClaims, normalizeRole, type UserRole } from '../lib/auth/claims';
+import { mergeGuestCart, mergeGuestSavedItems } from '../lib/cart/guestCart';
+import { mergeGuestWishlist } from '../lib/wishlist/guestWishlist';
 
 interface User {
   userId: number;
   email: string;
+  role: UserRole;
 }
 
 interface AuthContextType {
@@ -14,11 +18,18 @@ interface AuthContextType {
   register: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
   isAuthenticated: boolean;
+  isAdmin: boolean;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Prefer the role in the response body; fall back to the role claim in the token
+const getRole = (data: { role?: unknown; token?: string }): UserRole =>
+  data.role !== undefined
+    ? normalizeRole(data.role)
+    : decodeTokenClaims(data.token ?? '')?.role ?? 'customer';
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
@@ -33,7 +44,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       try {
         const parsedUser = JSON.parse(storedUser);
         setToken(storedToken);
-        setUser(parsedUser);
+        // Sessions stored before roles existed only carry the role in the token
+        setUser({ ...parsedUser, role: parsedUser.role ?? getRole({ token: storedToken }) });
       } catch (error) {
         // Clear invalid stored data
         localStorage.removeItem('auth_token');
@@ -43,6 +55,32 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setIsLoading(false);
   }, []);
 
+  // Follow logins and logouts made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'auth_token' && event.key !== 'auth_user' && event.key !== null) return;
+
+      const storedToken = localStorage.getItem('auth_token');
+      const storedUser = localStorage.getItem('auth_user');
+      if (!storedToken || !storedUser) {
+        setToken(null);
+        setUser(null);
+        return;
+      }
+
+      try {
+        const parsedUser = JSON.parse(storedUser);
+        setToken(storedToken);
+        setUser({ ...parsedUser, role: parsedUser.role ?? getRole({ token: storedToken }) });
+      } catch {
+        // The other tab is mid-write; its next storage event will carry the full session
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
   const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Auth/login`, {
@@ -55,11 +93,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (response.ok) {
         const data = await response.json();
-        const userData = {
+        const userData: User = {
           userId: data.userId,
           email: data.email,
+          role: getRole(data),
         };
 
+        // Merge before the token is set so the cart that loads next already has the guest items
+        await mergeGuestCart(data.token);
+        await mergeGuestSavedItems(data.token);
+        await mergeGuestWishlist(data.token);
+
         setToken(data.token);
         setUser(userData);
         
@@ -95,11 +139,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       if (response.ok) {
         const data = await response.json();
-        const userData = {
+        const userData: User = {
           userId: data.userId,
           email: data.email,
+          role: getRole(data),
         };
 
+        await mergeGuestCart(data.token);
+        await mergeGuestSavedItems(data.token);
+        await mergeGuestWishlist(data.token);
+
         setToken(data.token);
         setUser(userData);
         
@@ -133,6 +182,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     register,
     logout,
     isAuthenticated: !!token,
+    isAdmin: !!token && user?.role === 'admin',
     isLoading,
   };
 
@@ -1,38 +1,113 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './AuthContext';
+import { getPriceInfo, type PriceInfo } from '../lib/products/pricing';
+import {
+  calculateDiscount,
+  type DiscountLine,
+  type DiscountResult,
+  type PromotionRule,
+} from '../lib/promotions/discounts';
+import { getAvailableStock } from '../lib/products/stock';
+import { calculateTax, type TaxBreakdown, type TaxDestination } from '../lib/tax/calculate';
+import {
+  GUEST_CART_KEY,
+  GUEST_SAVED_ITEMS_KEY,
+  loadGuestCart,
+  loadGuestSavedItems,
+  saveGuestCart,
+  saveGuestSavedItems,
+  type Cart,
+  type CartItem,
+  type SavedItem,
+} from '../lib/cart/guestCart';
 
-interface CartItem {
+// Current catalog data for a product in the cart or saved list, used for live pricing and stock
+interface CatalogProduct {
   id: number;
-  productId: number;
-  productName: string;
-  productDescription: string;
+  name: string;
+  description: string;
   price: number;
-  productImage?: string;
-  quantity: number;
-  createdAt: string;
-  updatedAt: string;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
+  image?: string;
+  stock?: number;
+  weight?: number;
+  variants?: { id: number; sku: string; size?: string; color?: string; price?: number; image?: string; stock?: number }[];
 }
 
-interface Cart {
-  id: number;
-  userId: number;
-  createdAt: string;
-  updatedAt: string;
-  items: CartItem[];
+// What to put in the cart: a product, narrowed to one of its variants when it has any
+interface CartSelection {
+  productId: number;
+  variantId?: number;
+}
+
+interface PromoCodeResult {
+  success: boolean;
+  error?: string;
+}
+
+// Quantity clicks on the same line within this window are sent as one update
+const QUANTITY_DEBOUNCE_MS = 400;
+
+// Other tabs are told about cart changes on this channel; guest carts sync through storage events
+const CART_CHANNEL = 'cart';
+
+// How often an open tab re-checks the server cart for changes made on another device
+const CART_REVALIDATE_MS = 60_000;
+
+// Line changes shown before the server confirms them, by cart item id; null means removed
+type PendingChanges = Map<number, number | null>;
+
+interface QueuedQuantityUpdate {
+  timer: ReturnType<typeof setTimeout>;
+  waiters: ((success: boolean) => void)[];
 }
 
+const withPendingChanges = (base: Cart | null, changes: PendingChanges): Cart | null => {
+  if (!base || changes.size === 0) return base;
+  return {
+    ...base,
+    items: base.items
+      .filter(item => changes.get(item.id) !== null)
+      .map(item => {
+        const quantity = changes.get(item.id);
+        return quantity === undefined || quantity === null ? item : { ...item, quantity };
+      }),
+  };
+};
+
+// The applied code survives reloads; it is re-checked with the server when the cart loads
+const PROMO_CODE_KEY = 'promo_code';
+
 interface CartContextType {
   cart: Cart | null;
   isLoading: boolean;
+  products: Record<number, CatalogProduct>;
   fetchCart: () => Promise<void>;
-  addToCart: (productId: number, quantity?: number) => Promise<boolean>;
+  addToCart: (selection: CartSelection, quantity?: number) => Promise<boolean>;
   updateCartItem: (cartItemId: number, quantity: number) => Promise<boolean>;
   removeFromCart: (cartItemId: number) => Promise<boolean>;
   clearCart: () => Promise<boolean>;
+  isItemPending: (cartItemId: number) => boolean;
+  savedItems: SavedItem[];
+  saveForLater: (cartItemId: number) => Promise<boolean>;
+  moveToCart: (savedItemId: number) => Promise<boolean>;
+  removeSavedItem: (savedItemId: number) => Promise<boolean>;
+  isSyncing: boolean;
   getTotalItems: () => number;
+  getItemPrice: (item: CartItem) => PriceInfo;
+  getSubtotal: () => number;
   getTotalPrice: () => number;
+  getTotalSavings: () => number;
+  promotion: PromotionRule | null;
+  applyPromoCode: (code: string) => Promise<PromoCodeResult>;
+  removePromoCode: () => void;
+  getDiscount: () => DiscountResult;
+  // Without a destination the tax is estimated for the store's home region
+  getTaxBreakdown: (destination?: TaxDestination, shippingCost?: number) => TaxBreakdown;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -41,12 +116,68 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [cart, setCart] = useState<Cart | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasInitialized, setHasInitialized] = useState(false);
+  const [products, setProducts] = useState<Record<number, CatalogProduct>>({});
+  const [promotion, setPromotion] = useState<PromotionRule | null>(null);
+  const [hasRestoredPromo, setHasRestoredPromo] = useState(false);
+  const [pendingItemIds, setPendingItemIds] = useState<number[]>([]);
+  const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
   const { token, isAuthenticated } = useAuth();
 
-  const fetchCart = useCallback(async () => {
+  // Quantity and removal changes are shown straight away and sent in the background.
+  // `confirmedCart` is the last cart the server returned, which failed changes roll back to.
+  const confirmedCart = useRef<Cart | null>(null);
+  const pendingChanges = useRef<PendingChanges>(new Map());
+  const quantityUpdates = useRef(new Map<number, QueuedQuantityUpdate>());
+  const itemRequests = useRef(new Map<number, Promise<void>>());
+  const cartChannel = useRef<BroadcastChannel | null>(null);
+
+  const renderCart = useCallback(() => {
+    setCart(withPendingChanges(confirmedCart.current, pendingChanges.current));
+    setPendingItemIds(Array.from(pendingChanges.current.keys()));
+  }, []);
+
+  // Show a cart returned by the server, keeping any changes that are still in flight
+  const receiveCart = useCallback((data: Cart) => {
+    confirmedCart.current = data;
+    renderCart();
+  }, [renderCart]);
+
+  // Let other open tabs show a cart this tab just changed
+  const broadcastCart = (data: Cart) => {
+    cartChannel.current?.postMessage(data);
+  };
+
+  // Drop a pending change once its request settles, unless a newer change has replaced it.
+  // A failed change falls back to what the server last confirmed for that line.
+  const settleChange = (cartItemId: number, sent: number | null, data: Cart | null) => {
+    const current = pendingChanges.current.get(cartItemId);
+    if (current === sent || (!data && !quantityUpdates.current.has(cartItemId))) {
+      pendingChanges.current.delete(cartItemId);
+    }
+    if (data) {
+      confirmedCart.current = data;
+      broadcastCart(data);
+    }
+    renderCart();
+  };
+
+  // Requests for the same line go out one at a time, so a slow response can't overwrite a newer one
+  const enqueueItemRequest = (cartItemId: number, send: () => Promise<boolean>): Promise<boolean> => {
+    const previous = itemRequests.current.get(cartItemId) ?? Promise.resolve();
+    const request = previous.then(send);
+    const settled = request.then(() => undefined);
+    itemRequests.current.set(cartItemId, settled);
+    settled.then(() => {
+      if (itemRequests.current.get(cartItemId) === settled) itemRequests.current.delete(cartItemId);
+    });
+    return request;
+  };
+
+  // A silent load refreshes the cart in the background without showing the loading state
+  const loadCart = useCallback(async (silent: boolean) => {
     if (!isAuthenticated || !token) return;
 
-    setIsLoading(true);
+    if (!silent) setIsLoading(true);
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart`, {
         headers: {
@@ -56,20 +187,76 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (response.ok) {
         const data = await response.json();
-        setCart(data);
+        receiveCart(data);
       } else {
         console.error('Failed to fetch cart:', response.status);
       }
     } catch (error) {
       console.error('Error fetching cart:', error);
     } finally {
-      setIsLoading(false);
-      setHasInitialized(true);
+      if (!silent) {
+        setIsLoading(false);
+        setHasInitialized(true);
+      }
     }
-  }, [isAuthenticated, token]);
+  }, [isAuthenticated, token, receiveCart]);
+
+  const fetchCart = useCallback(() => loadCart(false), [loadCart]);
+
+  const saveGuestItems = (items: CartItem[]) => {
+    const updated: Cart = { ...loadGuestCart(), items, updatedAt: new Date().toISOString() };
+    saveGuestCart(updated);
+    setCart(updated);
+  };
+
+  // Guests get the same line the Cart API would create, capped at the stock on hand
+  const addToGuestCart = async (productId: number, variantId: number | undefined, quantity: number): Promise<boolean> => {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${productId}`);
+      if (!response.ok) {
+        console.error('Failed to add to cart:', response.status);
+        return false;
+      }
+
+      const product: CatalogProduct = await response.json();
+      const variant = product.variants?.find(v => v.id === variantId);
+      if (variantId !== undefined && !variant) return false;
+
+      const items = loadGuestCart().items;
+      const existing = items.find(i => i.productId === productId && i.variantId === variantId);
+      const available = getAvailableStock(product, variantId) ?? Infinity;
+      const newQuantity = Math.min((existing?.quantity ?? 0) + quantity, available);
+      if (newQuantity <= (existing?.quantity ?? 0)) return false;
+
+      const now = new Date().toISOString();
+      if (existing) {
+        saveGuestItems(items.map(i => i.id === existing.id ? { ...i, quantity: newQuantity, updatedAt: now } : i));
+      } else {
+        saveGuestItems([...items, {
+          id: items.reduce((max, i) => Math.max(max, i.id), 0) + 1,
+          productId,
+          variantId,
+          sku: variant?.sku,
+          size: variant?.size,
+          color: variant?.color,
+          productName: product.name,
+          productDescription: product.description,
+          price: variant?.price ?? product.price,
+          productImage: variant?.image ?? product.image,
+          quantity: newQuantity,
+          createdAt: now,
+          updatedAt: now,
+        }]);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error adding to cart:', error);
+      return false;
+    }
+  };
 
-  const addToCart = async (productId: number, quantity: number = 1): Promise<boolean> => {
-    if (!isAuthenticated || !token) return false;
+  const addToCart = async ({ productId, variantId }: CartSelection, quantity: number = 1): Promise<boolean> => {
+    if (!isAuthenticated || !token) return addToGuestCart(productId, variantId, quantity);
 
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/add`, {
@@ -78,12 +265,13 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ productId, quantity }),
+        body: JSON.stringify({ productId, variantId, quantity }),
       });
 
       if (response.ok) {
         const data = await response.json();
-        setCart(data);
+        receiveCart(data);
+        broadcastCart(data);
         return true;
       } else {
         console.error('Failed to add to cart:', response.status);
@@ -95,8 +283,10 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const updateCartItem = async (cartItemId: number, quantity: number): Promise<boolean> => {
-    if (!isAuthenticated || !token) return false;
+  const sendQuantityUpdate = async (cartItemId: number): Promise<boolean> => {
+    const quantity = pendingChanges.current.get(cartItemId);
+    // Already confirmed, rolled back or replaced by a removal
+    if (quantity === undefined || quantity === null) return true;
 
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/items/${cartItemId}`, {
@@ -110,23 +300,97 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (response.ok) {
         const data = await response.json();
-        setCart(data);
+        settleChange(cartItemId, quantity, data);
         return true;
       } else {
         console.error('Failed to update cart item:', response.status);
-        return false;
       }
     } catch (error) {
       console.error('Error updating cart item:', error);
-      return false;
     }
+
+    settleChange(cartItemId, quantity, null);
+    return false;
+  };
+
+  // Resolves once the server has the new quantity, or false if it was rolled back
+  const updateCartItem = async (cartItemId: number, quantity: number): Promise<boolean> => {
+    if (!isAuthenticated || !token) {
+      const now = new Date().toISOString();
+      saveGuestItems(loadGuestCart().items.map(i => i.id === cartItemId ? { ...i, quantity, updatedAt: now } : i));
+      return true;
+    }
+
+    pendingChanges.current.set(cartItemId, quantity);
+    renderCart();
+
+    return new Promise((resolve) => {
+      const queued = quantityUpdates.current.get(cartItemId);
+      if (queued) clearTimeout(queued.timer);
+
+      const waiters = [...(queued?.waiters ?? []), resolve];
+      const timer = setTimeout(() => {
+        quantityUpdates.current.delete(cartItemId);
+        enqueueItemRequest(cartItemId, () => sendQuantityUpdate(cartItemId))
+          .then(success => waiters.forEach(waiter => waiter(success)));
+      }, QUANTITY_DEBOUNCE_MS);
+
+      quantityUpdates.current.set(cartItemId, { timer, waiters });
+    });
   };
 
   const removeFromCart = async (cartItemId: number): Promise<boolean> => {
-    if (!isAuthenticated || !token) return false;
+    if (!isAuthenticated || !token) {
+      saveGuestItems(loadGuestCart().items.filter(i => i.id !== cartItemId));
+      return true;
+    }
+
+    // A removal replaces any quantity change still waiting to be sent
+    const queued = quantityUpdates.current.get(cartItemId);
+    if (queued) {
+      clearTimeout(queued.timer);
+      quantityUpdates.current.delete(cartItemId);
+    }
+
+    pendingChanges.current.set(cartItemId, null);
+    renderCart();
+
+    const success = await enqueueItemRequest(cartItemId, async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/items/${cartItemId}`, {
+          method: 'DELETE',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          settleChange(cartItemId, null, data);
+          return true;
+        } else {
+          console.error('Failed to remove from cart:', response.status);
+        }
+      } catch (error) {
+        console.error('Error removing from cart:', error);
+      }
+
+      settleChange(cartItemId, null, null);
+      return false;
+    });
+
+    queued?.waiters.forEach(waiter => waiter(success));
+    return success;
+  };
+
+  const clearCart = async (): Promise<boolean> => {
+    if (!isAuthenticated || !token) {
+      saveGuestItems([]);
+      return true;
+    }
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/items/${cartItemId}`, {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/clear`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -135,23 +399,95 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (response.ok) {
         const data = await response.json();
-        setCart(data);
+        receiveCart(data);
+        broadcastCart(data);
         return true;
       } else {
-        console.error('Failed to remove from cart:', response.status);
+        console.error('Failed to clear cart:', response.status);
         return false;
       }
     } catch (error) {
-      console.error('Error removing from cart:', error);
+      console.error('Error clearing cart:', error);
       return false;
     }
   };
 
-  const clearCart = async (): Promise<boolean> => {
-    if (!isAuthenticated || !token) return false;
+  const fetchSavedItems = useCallback(async () => {
+    if (!isAuthenticated || !token) return;
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/clear`, {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/SavedItems`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        setSavedItems(await response.json());
+      } else {
+        console.error('Failed to fetch saved items:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching saved items:', error);
+    }
+  }, [isAuthenticated, token]);
+
+  const updateGuestSavedItems = (items: SavedItem[]) => {
+    saveGuestSavedItems(items);
+    setSavedItems(items);
+  };
+
+  // Move a cart line onto the saved list. The line only leaves the cart once it has been saved.
+  const saveForLater = async (cartItemId: number): Promise<boolean> => {
+    const item = cart?.items.find(i => i.id === cartItemId);
+    if (!item) return false;
+
+    if (!isAuthenticated || !token) {
+      const items = loadGuestSavedItems();
+      const existing = items.find(i => i.productId === item.productId && i.variantId === item.variantId);
+      updateGuestSavedItems(existing
+        ? items.map(i => i === existing ? { ...i, quantity: Math.max(i.quantity, item.quantity) } : i)
+        : [...items, {
+          id: items.reduce((max, i) => Math.max(max, i.id), 0) + 1,
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          savedAt: new Date().toISOString(),
+        }]);
+      return removeFromCart(cartItemId);
+    }
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/SavedItems`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ productId: item.productId, variantId: item.variantId, quantity: item.quantity }),
+      });
+
+      if (response.ok) {
+        setSavedItems(await response.json());
+        return removeFromCart(cartItemId);
+      } else {
+        console.error('Failed to save item for later:', response.status);
+        return false;
+      }
+    } catch (error) {
+      console.error('Error saving item for later:', error);
+      return false;
+    }
+  };
+
+  const removeSavedItem = async (savedItemId: number): Promise<boolean> => {
+    if (!isAuthenticated || !token) {
+      updateGuestSavedItems(loadGuestSavedItems().filter(i => i.id !== savedItemId));
+      return true;
+    }
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/SavedItems/${savedItemId}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -159,49 +495,271 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
 
       if (response.ok) {
-        const data = await response.json();
-        setCart(data);
+        setSavedItems(await response.json());
         return true;
       } else {
-        console.error('Failed to clear cart:', response.status);
+        console.error('Failed to remove saved item:', response.status);
         return false;
       }
     } catch (error) {
-      console.error('Error clearing cart:', error);
+      console.error('Error removing saved item:', error);
       return false;
     }
   };
 
+  // Put a saved item back in the cart; it stays on the saved list if that fails
+  const moveToCart = async (savedItemId: number): Promise<boolean> => {
+    const item = savedItems.find(i => i.id === savedItemId);
+    if (!item) return false;
+
+    const added = await addToCart({ productId: item.productId, variantId: item.variantId }, item.quantity);
+    if (!added) return false;
+
+    return removeSavedItem(savedItemId);
+  };
+
   const getTotalItems = (): number => {
     if (!cart) return 0;
     return cart.items.reduce((total, item) => total + item.quantity, 0);
   };
 
+  // Sale prices come from the catalog; fall back to the cart's price until it has loaded
+  const getItemPrice = (item: CartItem): PriceInfo => {
+    const product = products[item.productId];
+    return product ? getPriceInfo(product, item.variantId) : { price: item.price };
+  };
+
+  const getSubtotal = (): number => {
+    if (!cart) return 0;
+    return cart.items.reduce((total, item) => total + (getItemPrice(item).price * item.quantity), 0);
+  };
+
+  const getDiscount = (): DiscountResult => {
+    if (!cart || !promotion) return { amount: 0, freeShipping: false };
+
+    const lines: DiscountLine[] = cart.items.map(item => ({
+      productId: item.productId,
+      unitPrice: getItemPrice(item).price,
+      quantity: item.quantity,
+    }));
+    return calculateDiscount(promotion, lines);
+  };
+
+  // What the customer is charged: the subtotal after sale prices and any promo code
   const getTotalPrice = (): number => {
+    return Math.max(0, getSubtotal() - getDiscount().amount);
+  };
+
+  const getTaxBreakdown = (destination?: TaxDestination, shippingCost = 0): TaxBreakdown => {
+    return calculateTax({
+      lines: (cart?.items ?? []).map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        amount: getItemPrice(item).price * item.quantity,
+      })),
+      discount: getDiscount().amount,
+      shipping: shippingCost,
+      destination,
+    });
+  };
+
+  const getTotalSavings = (): number => {
     if (!cart) return 0;
-    return cart.items.reduce((total, item) => total + (item.price * item.quantity), 0);
+    return cart.items.reduce((total, item) => {
+      const { price, compareAtPrice } = getItemPrice(item);
+      return total + ((compareAtPrice ?? price) - price) * item.quantity;
+    }, 0);
   };
 
-  // Fetch cart when user authenticates
+  const applyPromoCode = useCallback(async (code: string): Promise<PromoCodeResult> => {
+    if (!cart || cart.items.length === 0) {
+      return { success: false, error: 'Your cart is empty' };
+    }
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Promo/apply`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code,
+          items: cart.items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setPromotion(data.promotion);
+        localStorage.setItem(PROMO_CODE_KEY, data.promotion.code);
+        return { success: true };
+      } else {
+        return { success: false, error: data.error ?? 'Failed to apply promo code' };
+      }
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      return { success: false, error: 'Failed to apply promo code' };
+    }
+  }, [cart]);
+
+  const removePromoCode = () => {
+    setPromotion(null);
+    localStorage.removeItem(PROMO_CODE_KEY);
+  };
+
+  // Re-apply a code saved by an earlier visit once the cart is available
+  useEffect(() => {
+    if (hasRestoredPromo || !cart || cart.items.length === 0) return;
+    setHasRestoredPromo(true);
+
+    const savedCode = localStorage.getItem(PROMO_CODE_KEY);
+    if (!savedCode) return;
+
+    applyPromoCode(savedCode).then((result) => {
+      if (!result.success) localStorage.removeItem(PROMO_CODE_KEY);
+    });
+  }, [cart, hasRestoredPromo, applyPromoCode]);
+
+  // Load the catalog entries for the products in the cart and on the saved list
+  const productIdsKey = Array.from(new Set([
+    ...(cart?.items.map(item => item.productId) ?? []),
+    ...savedItems.map(item => item.productId),
+  ])).sort((a, b) => a - b).join(',');
+
+  useEffect(() => {
+    if (!productIdsKey) return;
+
+    const loadProducts = async () => {
+      const results = await Promise.all(
+        productIdsKey.split(',').map(async (id) => {
+          try {
+            const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${id}`);
+            return response.ok ? ((await response.json()) as CatalogProduct) : null;
+          } catch (error) {
+            console.error('Error fetching product', id, error);
+            return null;
+          }
+        })
+      );
+
+      const byId: Record<number, CatalogProduct> = {};
+      for (const product of results) {
+        if (product) byId[product.id] = product;
+      }
+      setProducts(byId);
+    };
+
+    loadProducts();
+  }, [productIdsKey]);
+
+  // Fetch cart when user authenticates; guests use the cart kept in localStorage
   useEffect(() => {
     if (isAuthenticated && token && !hasInitialized) {
       fetchCart();
+      fetchSavedItems();
     } else if (!isAuthenticated) {
-      setCart(null);
+      quantityUpdates.current.forEach(({ timer }) => clearTimeout(timer));
+      quantityUpdates.current.clear();
+      pendingChanges.current.clear();
+      confirmedCart.current = null;
+      setPendingItemIds([]);
+      setCart(loadGuestCart());
+      setSavedItems(loadGuestSavedItems());
       setHasInitialized(false);
+      setPromotion(null);
+      setHasRestoredPromo(false);
+    }
+  }, [isAuthenticated, token, hasInitialized, fetchCart, fetchSavedItems]);
+
+  // Keep open tabs in step: signed-in tabs share server carts over a BroadcastChannel,
+  // guest tabs pick up each other's localStorage writes
+  useEffect(() => {
+    if (isAuthenticated && typeof BroadcastChannel !== 'undefined') {
+      const channel = new BroadcastChannel(CART_CHANNEL);
+      channel.onmessage = (event: MessageEvent<Cart>) => receiveCart(event.data);
+      cartChannel.current = channel;
+
+      return () => {
+        channel.close();
+        cartChannel.current = null;
+      };
+    }
+
+    if (!isAuthenticated) {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === GUEST_CART_KEY) setCart(loadGuestCart());
+        if (event.key === GUEST_SAVED_ITEMS_KEY) setSavedItems(loadGuestSavedItems());
+      };
+
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
     }
-  }, [isAuthenticated, token, hasInitialized, fetchCart]);
+  }, [isAuthenticated, receiveCart]);
+
+  // A promo code applied or removed in another tab
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== PROMO_CODE_KEY) return;
+      if (event.newValue) {
+        applyPromoCode(event.newValue);
+      } else {
+        setPromotion(null);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [applyPromoCode]);
+
+  // Pick up changes made on other devices when the tab regains focus, and periodically while visible
+  useEffect(() => {
+    if (!isAuthenticated || !token || !hasInitialized) return;
+
+    // Focus and visibilitychange usually fire together; one request covers both
+    let lastCheckedAt = Date.now();
+    const revalidate = () => {
+      if (document.visibilityState !== 'visible' || Date.now() - lastCheckedAt < 1000) return;
+      lastCheckedAt = Date.now();
+      loadCart(true);
+      fetchSavedItems();
+    };
+
+    const interval = setInterval(revalidate, CART_REVALIDATE_MS);
+    window.addEventListener('focus', revalidate);
+    document.addEventListener('visibilitychange', revalidate);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', revalidate);
+      document.removeEventListener('visibilitychange', revalidate);
+    };
+  }, [isAuthenticated, token, hasInitialized, loadCart, fetchSavedItems]);
 
   const value: CartContextType = {
     cart,
     isLoading,
+    products,
     fetchCart,
     addToCart,
     updateCartItem,
     removeFromCart,
     clearCart,
+    isItemPending: (cartItemId: number) => pendingItemIds.includes(cartItemId),
+    isSyncing: pendingItemIds.length > 0,
+    savedItems,
+    saveForLater,
+    moveToCart,
+    removeSavedItem,
     getTotalItems,
+    getItemPrice,
+    getSubtotal,
     getTotalPrice,
+    getTotalSavings,
+    promotion,
+    applyPromoCode,
+    removePromoCode,
+    getDiscount,
+    getTaxBreakdown,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  GUEST_WISHLIST_KEY,
+  loadGuestWishlist,
+  saveGuestWishlist,
+  type WishlistItem,
+} from '../lib/wishlist/guestWishlist';
+
+interface WishlistContextType {
+  items: WishlistItem[];
+  isLoading: boolean;
+  isInWishlist: (productId: number) => boolean;
+  addToWishlist: (productId: number) => Promise<boolean>;
+  removeFromWishlist: (productId: number) => Promise<boolean>;
+  toggleWishlist: (productId: number) => Promise<boolean>;
+  getWishlistCount: () => number;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+export const WishlistProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { token, isAuthenticated } = useAuth();
+
+  const fetchWishlist = useCallback(async () => {
+    if (!isAuthenticated || !token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Wishlist`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        setItems(await response.json());
+      } else {
+        console.error('Failed to fetch wishlist:', response.status);
+      }
+    } catch (error) {
+      console.error('Error fetching wishlist:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated, token]);
+
+  const updateGuestWishlist = (updated: WishlistItem[]) => {
+    saveGuestWishlist(updated);
+    setItems(updated);
+  };
+
+  const addToWishlist = async (productId: number): Promise<boolean> => {
+    if (!isAuthenticated || !token) {
+      const current = loadGuestWishlist();
+      if (!current.some(i => i.productId === productId)) {
+        updateGuestWishlist([...current, {
+          id: current.reduce((max, i) => Math.max(max, i.id), 0) + 1,
+          productId,
+          addedAt: new Date().toISOString(),
+        }]);
+      }
+      return true;
+    }
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Wishlist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ productId }),
+      });
+
+      if (response.ok) {
+        setItems(await response.json());
+        return true;
+      } else {
+        console.error('Failed to add to wishlist:', response.status);
+        return false;
+      }
+    } catch (error) {
+      console.error('Error adding to wishlist:', error);
+      return false;
+    }
+  };
+
+  const removeFromWishlist = async (productId: number): Promise<boolean> => {
+    if (!isAuthenticated || !token) {
+      updateGuestWishlist(loadGuestWishlist().filter(i => i.productId !== productId));
+      return true;
+    }
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Wishlist/${productId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        setItems(await response.json());
+        return true;
+      } else {
+        console.error('Failed to remove from wishlist:', response.status);
+        return false;
+      }
+    } catch (error) {
+      console.error('Error removing from wishlist:', error);
+      return false;
+    }
+  };
+
+  const isInWishlist = (productId: number): boolean => {
+    return items.some(item => item.productId === productId);
+  };
+
+  const toggleWishlist = (productId: number): Promise<boolean> => {
+    return isInWishlist(productId) ? removeFromWishlist(productId) : addToWishlist(productId);
+  };
+
+  const getWishlistCount = (): number => {
+    return items.length;
+  };
+
+  // Signed-in users load their saved wishlist; guests use the one kept in localStorage
+  useEffect(() => {
+    if (isAuthenticated && token) {
+      fetchWishlist();
+    } else if (!isAuthenticated) {
+      setItems(loadGuestWishlist());
+    }
+  }, [isAuthenticated, token, fetchWishlist]);
+
+  // Guest tabs pick up each other's changes
+  useEffect(() => {
+    if (isAuthenticated) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === GUEST_WISHLIST_KEY) setItems(loadGuestWishlist());
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [isAuthenticated]);
+
+  const value: WishlistContextType = {
+    items,
+    isLoading,
+    isInWishlist,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    getWishlistCount,
+  };
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+};
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};
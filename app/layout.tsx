@@ -4,6 +4,7 @@ import "./globals.css";
 import Footer from "./components/Footer/Footer";
 import { AuthProvider } from "./contexts/AuthContext";
 import { CartProvider } from "./contexts/CartContext";
+import { WishlistProvider } from "./contexts/WishlistContext";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -36,12 +37,14 @@ export default function RootLayout({
       >
         <AuthProvider>
           <CartProvider>
-            <div className="flex flex-col min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
-              <main className="flex-1">
-                {children}
-              </main>
-              <Footer />
-            </div>
+            <WishlistProvider>
+              <div className="flex flex-col min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+                <main className="flex-1">
+                  {children}
+                </main>
+                <Footer />
+              </div>
+            </WishlistProvider>
           </CartProvider>
         </AuthProvider>
       </body>
@@ -0,0 +1,56 @@
+// JWT claim helpers shared by the client (to read the role it was issued) and the
+// server (after the signature has been verified). Nothing here checks signatures.
+
+export type UserRole = 'customer' | 'admin';
+
+export interface TokenClaims {
+  userId?: number;
+  email?: string;
+  role: UserRole;
+  exp?: number;
+}
+
+// ASP.NET Core issues claims under their long schema URIs
+const ROLE_CLAIMS = ['role', 'roles', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role'];
+const ID_CLAIMS = ['userId', 'sub', 'nameid', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier'];
+const EMAIL_CLAIMS = ['email', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'];
+
+const pick = (payload: Record<string, unknown>, names: string[]) =>
+  names.map(name => payload[name]).find(value => value !== undefined);
+
+export const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Anything that isn't explicitly an admin is treated as a customer
+export const normalizeRole = (value: unknown): UserRole => {
+  const roles = Array.isArray(value) ? value : [value];
+  return roles.some(role => typeof role === 'string' && role.toLowerCase() === 'admin') ? 'admin' : 'customer';
+};
+
+export const claimsFromPayload = (payload: Record<string, unknown>): TokenClaims => {
+  const id = Number(pick(payload, ID_CLAIMS));
+  const email = pick(payload, EMAIL_CLAIMS);
+
+  return {
+    userId: Number.isFinite(id) ? id : undefined,
+    email: typeof email === 'string' ? email : undefined,
+    role: normalizeRole(pick(payload, ROLE_CLAIMS)),
+    exp: typeof payload.exp === 'number' ? payload.exp : undefined,
+  };
+};
+
+// Read the claims of a token without verifying it. Returns null if it isn't a JWT.
+export const decodeTokenClaims = (token: string): TokenClaims | null => {
+  try {
+    const [, payload] = token.split('.');
+    if (!payload) return null;
+    return claimsFromPayload(JSON.parse(decodeBase64Url(payload)));
+  } catch {
+    return null;
+  }
+};
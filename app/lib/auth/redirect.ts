@@ -0,0 +1,7 @@
+// Where to send the user after signing in, from a `?redirect=` query param.
+// Only same-site paths are honoured so the param can't bounce users to another domain.
+export const getRedirectPath = (search: string, fallback = '/'): string => {
+  const redirect = new URLSearchParams(search).get('redirect');
+  if (!redirect || !redirect.startsWith('/') || redirect.startsWith('//')) return fallback;
+  return redirect;
+};
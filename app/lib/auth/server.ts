@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { claimsFromPayload, decodeBase64Url, type TokenClaims } from './claims';
+
+// Verify an HS256 token issued by the backend with the shared JWT_SECRET.
+// Returns null for anything malformed, wrongly signed or expired.
+export const verifyToken = (token: string): TokenClaims | null => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const { alg } = JSON.parse(decodeBase64Url(header));
+    if (alg !== 'HS256') return null;
+
+    const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const claims = claimsFromPayload(JSON.parse(decodeBase64Url(payload)));
+    if (claims.exp !== undefined && claims.exp * 1000 < Date.now()) return null;
+
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+// Claims of the caller's `Authorization: Bearer` token, or null if it is missing or invalid
+export const authenticate = (request: NextRequest): TokenClaims | null => {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? verifyToken(match[1]) : null;
+};
+
+// Returns an error response unless the caller is a signed-in admin
+export const requireAdmin = (request: NextRequest): NextResponse | null => {
+  let claims: TokenClaims | null;
+  try {
+    claims = authenticate(request);
+  } catch (error) {
+    console.error('Error verifying token:', error);
+    return NextResponse.json(
+      { error: 'Authentication is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (!claims) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (claims.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,178 @@
+import { getAvailableStock } from '../products/stock';
+
+// Shoppers who aren't signed in keep their cart in localStorage, in the same shape
+// the Cart API returns, and it is folded into their server cart when they sign in.
+
+export interface CartItem {
+  id: number;
+  productId: number;
+  variantId?: number;
+  sku?: string;
+  size?: string;
+  color?: string;
+  productName: string;
+  productDescription: string;
+  price: number;
+  productImage?: string;
+  quantity: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Cart {
+  id: number;
+  userId: number;
+  createdAt: string;
+  updatedAt: string;
+  items: CartItem[];
+}
+
+// A line moved out of the cart with "Save for later"; the same shape GET /api/SavedItems returns
+export interface SavedItem {
+  id: number;
+  productId: number;
+  variantId?: number;
+  quantity: number;
+  savedAt: string;
+}
+
+export const GUEST_CART_KEY = 'guest_cart';
+export const GUEST_SAVED_ITEMS_KEY = 'guest_saved_items';
+
+export const emptyGuestCart = (): Cart => {
+  const now = new Date().toISOString();
+  return { id: 0, userId: 0, createdAt: now, updatedAt: now, items: [] };
+};
+
+export const loadGuestCart = (): Cart => {
+  const stored = localStorage.getItem(GUEST_CART_KEY);
+  if (!stored) return emptyGuestCart();
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(GUEST_CART_KEY);
+    return emptyGuestCart();
+  }
+};
+
+export const saveGuestCart = (cart: Cart) => {
+  if (cart.items.length === 0) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(cart));
+  }
+};
+
+export const loadGuestSavedItems = (): SavedItem[] => {
+  const stored = localStorage.getItem(GUEST_SAVED_ITEMS_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(GUEST_SAVED_ITEMS_KEY);
+    return [];
+  }
+};
+
+export const saveGuestSavedItems = (items: SavedItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(GUEST_SAVED_ITEMS_KEY);
+  } else {
+    localStorage.setItem(GUEST_SAVED_ITEMS_KEY, JSON.stringify(items));
+  }
+};
+
+// A deleted product has nothing left to add; any other failure is thrown so the line is kept
+const fetchAvailableStock = async (productId: number, variantId?: number): Promise<number | undefined> => {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${productId}`);
+  if (response.status === 404) return 0;
+  if (!response.ok) throw new Error(`Failed to fetch product ${productId}: ${response.status}`);
+  return getAvailableStock(await response.json(), variantId);
+};
+
+// Move the guest cart into the signed-in user's server cart. When both carts hold the
+// same product and variant, the larger quantity wins rather than the two being added,
+// and nothing goes past the stock on hand. Lines that fail to sync stay in the guest cart.
+export const mergeGuestCart = async (token: string): Promise<void> => {
+  const guestCart = loadGuestCart();
+  if (guestCart.items.length === 0) return;
+
+  const headers = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  const unsynced: CartItem[] = [];
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart`, { headers });
+    if (!response.ok) throw new Error(`Failed to fetch cart: ${response.status}`);
+    const serverCart: Cart = await response.json();
+
+    for (const item of guestCart.items) {
+      const existing = serverCart.items.find(i => i.productId === item.productId && i.variantId === item.variantId);
+      let available: number | undefined;
+      try {
+        available = await fetchAvailableStock(item.productId, item.variantId);
+      } catch (error) {
+        console.error('Error checking stock for guest cart line:', error);
+        unsynced.push(item);
+        continue;
+      }
+      const quantity = Math.min(Math.max(item.quantity, existing?.quantity ?? 0), available ?? Infinity);
+
+      let synced = true;
+      if (existing && quantity > existing.quantity) {
+        const update = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/items/${existing.id}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ quantity }),
+        });
+        synced = update.ok;
+      } else if (!existing && quantity > 0) {
+        const add = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Cart/add`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ productId: item.productId, variantId: item.variantId, quantity }),
+        });
+        synced = add.ok;
+      }
+
+      if (!synced) unsynced.push(item);
+    }
+  } catch (error) {
+    console.error('Error merging guest cart:', error);
+    return;
+  }
+
+  saveGuestCart({ ...guestCart, items: unsynced });
+};
+
+// Copy a guest's saved-for-later list to their account. The server keeps the larger
+// quantity for items saved on both sides; anything that fails to copy stays local.
+export const mergeGuestSavedItems = async (token: string): Promise<void> => {
+  const savedItems = loadGuestSavedItems();
+  if (savedItems.length === 0) return;
+
+  const unsynced: SavedItem[] = [];
+  for (const item of savedItems) {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/SavedItems`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ productId: item.productId, variantId: item.variantId, quantity: item.quantity }),
+      });
+      // A product deleted since it was saved can't be copied; let it go
+      if (!response.ok && response.status !== 400) unsynced.push(item);
+    } catch (error) {
+      console.error('Error merging saved items:', error);
+      unsynced.push(item);
+    }
+  }
+
+  saveGuestSavedItems(unsynced);
+};
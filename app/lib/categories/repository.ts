@@ -0,0 +1,118 @@
+import { mutateStore, nextId, readStore, type CategoryRecord, type StoreData } from '../db/store';
+
+export type Category = CategoryRecord;
+
+export type CategoryInput = Pick<Category, 'name' | 'slug' | 'description' | 'parentId'>;
+
+// Thrown for references to categories that don't exist, or a parent that would create a cycle
+export class InvalidCategoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCategoryError';
+  }
+}
+
+// Thrown when a change would clash with existing categories
+export class CategoryConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryConflictError';
+  }
+}
+
+// The ids of `categoryId` and every category nested beneath it
+export const getDescendantIds = (categories: Category[], categoryId: number): number[] => {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i]) ids.push(category.id);
+    }
+  }
+  return ids;
+};
+
+export const assertCategoriesExist = (data: StoreData, categoryIds: number[]) => {
+  const missing = categoryIds.filter(id => !data.categories.some(c => c.id === id));
+  if (missing.length > 0) {
+    throw new InvalidCategoryError(`Unknown category ID: ${missing.join(', ')}`);
+  }
+};
+
+const assertSlugAvailable = (data: StoreData, slug: string, exceptId?: number) => {
+  if (data.categories.some(c => c.id !== exceptId && c.slug === slug)) {
+    throw new CategoryConflictError(`Slug ${slug} is already in use`);
+  }
+};
+
+const assertValidParent = (data: StoreData, parentId: number | undefined, categoryId?: number) => {
+  if (parentId === undefined) return;
+
+  assertCategoriesExist(data, [parentId]);
+  if (categoryId !== undefined && getDescendantIds(data.categories, categoryId).includes(parentId)) {
+    throw new InvalidCategoryError('A category cannot be nested inside itself');
+  }
+};
+
+export const listCategories = async (): Promise<Category[]> => {
+  const data = await readStore();
+  return data.categories;
+};
+
+export const getCategory = async (id: number): Promise<Category | null> => {
+  const data = await readStore();
+  return data.categories.find(c => c.id === id) ?? null;
+};
+
+export const createCategory = (input: CategoryInput): Promise<Category> =>
+  mutateStore((data) => {
+    assertSlugAvailable(data, input.slug);
+    assertValidParent(data, input.parentId);
+
+    const now = new Date().toISOString();
+    const category: Category = {
+      id: nextId(data, 'categories'),
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    data.categories.push(category);
+    return category;
+  });
+
+// Returns null if the category does not exist
+export const updateCategory = (id: number, changes: Partial<CategoryInput>): Promise<Category | null> =>
+  mutateStore((data) => {
+    const index = data.categories.findIndex(c => c.id === id);
+    if (index === -1) return null;
+
+    if (changes.slug) assertSlugAvailable(data, changes.slug, id);
+    if ('parentId' in changes) assertValidParent(data, changes.parentId, id);
+
+    const updated: Category = {
+      ...data.categories[index],
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+
+    data.categories[index] = updated;
+    return updated;
+  });
+
+// Removes the category and unassigns it from every product.
+// Returns the removed category, or null if it did not exist.
+export const deleteCategory = (id: number): Promise<Category | null> =>
+  mutateStore((data) => {
+    const index = data.categories.findIndex(c => c.id === id);
+    if (index === -1) return null;
+
+    if (data.categories.some(c => c.parentId === id)) {
+      throw new CategoryConflictError('Move or delete its subcategories first');
+    }
+
+    for (const product of data.products) {
+      product.categoryIds = product.categoryIds.filter(categoryId => categoryId !== id);
+    }
+
+    return data.categories.splice(index, 1)[0];
+  });
@@ -0,0 +1,82 @@
+import type { CategoryInput } from './repository';
+
+type ValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Top-level app routes a category slug would be shadowed by
+const RESERVED_SLUGS = [
+  'admin', 'api', 'cart', 'checkout', 'login', 'orders', 'payment-success', 'products', 'register', 'returns', 'sale', 'wishlist',
+];
+
+export const slugify = (value: string) =>
+  value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const collectCategoryFields = (body: Record<string, unknown>): ValidationResult<Partial<CategoryInput>> => {
+  const fields: Partial<CategoryInput> = {};
+
+  if ('name' in body) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'Name cannot be empty' };
+    }
+    if (body.name.length > 50) {
+      return { error: 'Name must be 50 characters or less' };
+    }
+    fields.name = body.name.trim();
+  }
+
+  if ('slug' in body) {
+    if (typeof body.slug !== 'string' || !SLUG_PATTERN.test(body.slug)) {
+      return { error: 'Slug may only contain lowercase letters, numbers and single hyphens' };
+    }
+    if (RESERVED_SLUGS.includes(body.slug)) {
+      return { error: `Slug ${body.slug} is reserved` };
+    }
+    fields.slug = body.slug;
+  }
+
+  if ('description' in body) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'Description must be a string or null' };
+    }
+    if (typeof body.description === 'string' && body.description.length > 500) {
+      return { error: 'Description must be 500 characters or less' };
+    }
+    fields.description = body.description || undefined;
+  }
+
+  if ('parentId' in body) {
+    if (body.parentId !== null && (typeof body.parentId !== 'number' || !Number.isInteger(body.parentId))) {
+      return { error: 'Parent ID must be an integer or null' };
+    }
+    fields.parentId = body.parentId ?? undefined;
+  }
+
+  return { data: fields };
+};
+
+// Validate a new category. The slug defaults to one derived from the name.
+export const validateCategoryInput = (body: Record<string, unknown>): ValidationResult<CategoryInput> => {
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return { error: 'Name is required' };
+  }
+
+  const result = collectCategoryFields({ slug: slugify(body.name), ...body });
+  if (result.error !== undefined) return result;
+
+  return { data: result.data as CategoryInput };
+};
+
+// Validate a category PATCH payload; `parentId: null` moves it to the top level
+export const validateCategoryChanges = (body: Record<string, unknown>): ValidationResult<Partial<CategoryInput>> => {
+  const result = collectCategoryFields(body);
+  if (result.error !== undefined) return result;
+
+  if (Object.keys(result.data).length === 0) {
+    return { error: 'At least one of name, slug, description, or parentId is required' };
+  }
+
+  return result;
+};
@@ -0,0 +1,127 @@
+// Contact and delivery details collected at checkout. They are sent with the order
+// placement and stored on the order in the same shape.
+
+export interface ContactInfo {
+  email: string;
+  phone?: string;
+}
+
+export interface ShippingAddress {
+  fullName: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  // ISO 3166-1 alpha-2, as Stripe expects
+  country: string;
+}
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+export const COUNTRIES: { code: string; name: string }[] = [
+  { code: 'US', name: 'United States' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+];
+
+// Countries whose addresses need a state or province
+const STATE_REQUIRED = ['US', 'CA', 'AU'];
+
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Za-z]\d[A-Za-z] ?\d[A-Za-z]\d$/,
+  GB: /^[A-Za-z]{1,2}\d[A-Za-z\d]? ?\d[A-Za-z]{2}$/,
+  AU: /^\d{4}$/,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+export const emptyShippingAddress = (): ShippingAddress => ({
+  fullName: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'US',
+});
+
+export const validateContact = (contact: ContactInfo): FieldErrors<ContactInfo> => {
+  const errors: FieldErrors<ContactInfo> = {};
+
+  if (!EMAIL_PATTERN.test(contact.email.trim())) {
+    errors.email = 'Enter a valid email address';
+  }
+  if (contact.phone?.trim() && !PHONE_PATTERN.test(contact.phone.trim())) {
+    errors.phone = 'Enter a valid phone number';
+  }
+
+  return errors;
+};
+
+export const validateShippingAddress = (address: ShippingAddress): FieldErrors<ShippingAddress> => {
+  const errors: FieldErrors<ShippingAddress> = {};
+
+  if (!address.fullName.trim()) {
+    errors.fullName = 'Full name is required';
+  }
+  if (!address.line1.trim()) {
+    errors.line1 = 'Street address is required';
+  }
+  if (!address.city.trim()) {
+    errors.city = 'City is required';
+  }
+  if (!COUNTRIES.some(c => c.code === address.country)) {
+    errors.country = 'We don\'t ship to this country yet';
+  }
+  if (STATE_REQUIRED.includes(address.country) && !address.state?.trim()) {
+    errors.state = address.country === 'CA' ? 'Province is required' : 'State is required';
+  }
+
+  const postalCode = address.postalCode.trim();
+  const pattern = POSTAL_CODE_PATTERNS[address.country];
+  if (!postalCode) {
+    errors.postalCode = 'Postal code is required';
+  } else if (pattern && !pattern.test(postalCode)) {
+    errors.postalCode = 'Enter a valid postal code';
+  }
+
+  return errors;
+};
+
+export const hasErrors = <T>(errors: FieldErrors<T>) => Object.keys(errors).length > 0;
+
+export const normalizeContact = (contact: ContactInfo): ContactInfo => ({
+  email: contact.email.trim(),
+  phone: contact.phone?.trim() || undefined,
+});
+
+// Trim every field and drop the empty optional ones before the address is sent anywhere
+export const normalizeShippingAddress = (address: ShippingAddress): ShippingAddress => ({
+  fullName: address.fullName.trim(),
+  line1: address.line1.trim(),
+  line2: address.line2?.trim() || undefined,
+  city: address.city.trim(),
+  state: address.state?.trim() || undefined,
+  postalCode: address.postalCode.trim().toUpperCase(),
+  country: address.country,
+});
+
+// The address as display lines, e.g. for an order summary
+export const formatAddressLines = (address: ShippingAddress): string[] => {
+  const country = COUNTRIES.find(c => c.code === address.country)?.name ?? address.country;
+  return [
+    address.fullName,
+    address.line1,
+    address.line2,
+    [address.city, [address.state, address.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+    country,
+  ].filter((line): line is string => Boolean(line));
+};
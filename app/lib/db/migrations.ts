@@ -0,0 +1,92 @@
+import type { StoreData } from './store';
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (data: StoreData) => void;
+}
+
+// Append new migrations to the end; never edit one that has already shipped
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create-products',
+    up: (data) => {
+      data.products = [];
+      data.sequences.products = 0;
+    },
+  },
+  {
+    version: 2,
+    name: 'add-product-variants',
+    up: (data) => {
+      for (const product of data.products) {
+        product.variants = product.variants ?? [];
+      }
+      data.sequences.variants = 0;
+    },
+  },
+  {
+    version: 3,
+    name: 'create-categories',
+    up: (data) => {
+      data.categories = [];
+      data.sequences.categories = 0;
+      for (const product of data.products) {
+        product.categoryIds = product.categoryIds ?? [];
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'create-promotions',
+    up: (data) => {
+      data.promotions = [];
+      data.sequences.promotions = 0;
+    },
+  },
+  {
+    version: 5,
+    name: 'create-saved-items',
+    up: (data) => {
+      data.savedItems = [];
+      data.sequences.savedItems = 0;
+    },
+  },
+  {
+    version: 6,
+    name: 'create-wishlist',
+    up: (data) => {
+      data.wishlistItems = [];
+      data.sequences.wishlistItems = 0;
+    },
+  },
+  {
+    version: 7,
+    name: 'create-order-status-events',
+    up: (data) => {
+      data.orderStatusEvents = [];
+      data.sequences.orderStatusEvents = 0;
+    },
+  },
+  {
+    version: 8,
+    name: 'create-returns',
+    up: (data) => {
+      data.returns = [];
+      data.sequences.returns = 0;
+    },
+  },
+];
+
+// Bring `data` up to the latest schema version. Returns true if anything ran.
+export const migrate = (data: StoreData): boolean => {
+  const pending = migrations.filter(m => m.version > (data.version ?? 0));
+
+  for (const migration of pending) {
+    migration.up(data);
+    data.version = migration.version;
+  }
+
+  return pending.length > 0;
+};
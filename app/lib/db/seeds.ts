@@ -0,0 +1,95 @@
+import type { ProductInput, VariantInput } from '../products/repository';
+import type { PromotionInput } from '../promotions/repository';
+
+interface CategorySeed {
+  name: string;
+  slug: string;
+  description?: string;
+  children?: CategorySeed[];
+}
+
+// Products reference their categories by slug
+type ProductSeed = Omit<ProductInput, 'categoryIds'> & { categories: string[]; variants: VariantInput[] };
+
+// Starter collections loaded by `npm run db:seed`
+export const categorySeeds: CategorySeed[] = [
+  {
+    name: 'Men',
+    slug: 'men',
+    description: 'Everyday essentials and statement pieces for men.',
+    children: [
+      { name: "Men's Tops", slug: 'men-tops' },
+      { name: "Men's Bottoms", slug: 'men-bottoms' },
+    ],
+  },
+  {
+    name: 'Women',
+    slug: 'women',
+    description: 'Modern fits and timeless styles for women.',
+    children: [
+      { name: "Women's Tops", slug: 'women-tops' },
+      { name: "Women's Bottoms", slug: 'women-bottoms' },
+    ],
+  },
+  {
+    name: 'Kids',
+    slug: 'kids',
+    description: 'Durable, comfy clothes built for play.',
+  },
+];
+
+// Starter catalog loaded by `npm run db:seed`
+export const productSeeds: ProductSeed[] = [
+  {
+    name: 'Classic Cotton T-Shirt',
+    description: 'A comfortable, breathable cotton t-shirt perfect for everyday wear.',
+    price: 29.99,
+    image: 'https://via.placeholder.com/300x300?text=T-Shirt',
+    categories: ['men-tops', 'women-tops'],
+    variants: [
+      { sku: 'TS-CLASSIC-WHT-S', size: 'S', color: 'White', stock: 12 },
+      { sku: 'TS-CLASSIC-WHT-M', size: 'M', color: 'White', stock: 20 },
+      { sku: 'TS-CLASSIC-WHT-L', size: 'L', color: 'White', stock: 15 },
+      { sku: 'TS-CLASSIC-BLK-S', size: 'S', color: 'Black', stock: 8 },
+      { sku: 'TS-CLASSIC-BLK-M', size: 'M', color: 'Black', stock: 3 },
+      { sku: 'TS-CLASSIC-BLK-L', size: 'L', color: 'Black', stock: 10 },
+      { sku: 'TS-CLASSIC-NVY-M', size: 'M', color: 'Navy', stock: 0 },
+      { sku: 'TS-CLASSIC-NVY-L', size: 'L', color: 'Navy', stock: 6 },
+    ],
+  },
+  {
+    name: 'Denim Jeans',
+    description: 'Premium quality denim jeans with a modern fit.',
+    price: 79.99,
+    // Open-ended sale so /sale has something to show
+    salePrice: 59.99,
+    image: 'https://via.placeholder.com/300x300?text=Jeans',
+    categories: ['men-bottoms', 'women-bottoms'],
+    variants: [
+      { sku: 'JN-DENIM-30', size: '30', stock: 14 },
+      { sku: 'JN-DENIM-32', size: '32', stock: 25 },
+      { sku: 'JN-DENIM-34', size: '34', stock: 9 },
+      { sku: 'JN-DENIM-36', size: '36', price: 84.99, stock: 2 },
+    ],
+  },
+  {
+    name: 'Kids Zip Hoodie',
+    description: 'A soft fleece hoodie with a full-length zip and roomy pockets.',
+    price: 34.99,
+    image: 'https://via.placeholder.com/300x300?text=Hoodie',
+    categories: ['kids'],
+    variants: [
+      { sku: 'KD-HOODIE-RED-4T', size: '4T', color: 'Red', stock: 7 },
+      { sku: 'KD-HOODIE-RED-6', size: '6', color: 'Red', stock: 4 },
+      { sku: 'KD-HOODIE-GRN-4T', size: '4T', color: 'Green', stock: 10 },
+      { sku: 'KD-HOODIE-GRN-6', size: '6', color: 'Green', stock: 0 },
+    ],
+  },
+];
+
+// Sample promo codes, added only when the store has none
+export const promotionSeeds: PromotionInput[] = [
+  { code: 'WELCOME10', type: 'percentage', value: 10, description: '10% off your order', active: true },
+  { code: 'FREESHIP', type: 'free_shipping', minSubtotal: 50, active: true },
+  { code: 'BUNDLE3', type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1, active: true },
+];
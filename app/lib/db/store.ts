@@ -0,0 +1,235 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { migrate } from './migrations';
+import type { ShippingAddress } from '../checkout/address';
+import type { OrderActor, OrderStatus } from '../orders/status';
+import type { ReturnResolution, ReturnStatus } from '../returns/status';
+
+export interface VariantRecord {
+  id: number;
+  sku: string;
+  size?: string;
+  color?: string;
+  // Overrides the product price when set
+  price?: number;
+  image?: string;
+  // Units on hand; omitted when the variant is not inventory-tracked
+  stock?: number;
+}
+
+export interface CategoryRecord {
+  id: number;
+  name: string;
+  // URL segment, e.g. `men` renders at /men
+  slug: string;
+  description?: string;
+  // Set for subcategories; top-level categories have no parent
+  parentId?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductRecord {
+  id: number;
+  name: string;
+  description: string;
+  // Regular price; shown as the compare-at price while a sale is running
+  price: number;
+  // Discounted price, applied between the optional sale start and end times
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
+  image?: string;
+  // Units on hand for products without variants; omitted when not tracked
+  stock?: number;
+  // Shipping weight per unit in kilograms; checkout assumes a default when omitted
+  weight?: number;
+  variants: VariantRecord[];
+  categoryIds: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PromotionType = 'percentage' | 'fixed' | 'free_shipping' | 'buy_x_get_y';
+
+export interface PromotionRedemption {
+  orderId: number;
+  userId?: number;
+  redeemedAt: string;
+}
+
+export interface PromotionRecord {
+  id: number;
+  // Stored upper-case; codes are matched case-insensitively
+  code: string;
+  type: PromotionType;
+  description?: string;
+  // Percent off for `percentage`, amount off for `fixed`
+  value?: number;
+  // For `buy_x_get_y`: every `buyQuantity` units earn `getQuantity` more free
+  buyQuantity?: number;
+  getQuantity?: number;
+  // Limits the discount to these products; every product qualifies when omitted
+  productIds?: number[];
+  minSubtotal?: number;
+  startsAt?: string;
+  expiresAt?: string;
+  // Total number of orders the code can be used on; unlimited when omitted
+  usageLimit?: number;
+  redemptions: PromotionRedemption[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A cart line a shopper has set aside; price and stock are always read from the catalog
+export interface SavedItemRecord {
+  id: number;
+  userId: number;
+  productId: number;
+  variantId?: number;
+  quantity: number;
+  savedAt: string;
+}
+
+export interface WishlistItemRecord {
+  id: number;
+  userId: number;
+  productId: number;
+  addedAt: string;
+}
+
+// One status change in an order's audit trail. Orders live in the backend; only their
+// history is kept here.
+export interface OrderStatusEventRecord {
+  id: number;
+  orderId: number;
+  from: OrderStatus;
+  to: OrderStatus;
+  reason?: string;
+  actorRole: OrderActor;
+  // Omitted for changes the app made itself
+  actorId?: number;
+  changedAt: string;
+}
+
+// A returned order line, copied from the order when the return is requested
+export interface ReturnItemRecord {
+  orderItemId: number;
+  productId: number;
+  variantId?: number;
+  productName: string;
+  size?: string;
+  color?: string;
+  // Unit price the customer paid
+  price: number;
+  quantity: number;
+  // For exchanges: the variant to send instead
+  exchangeVariantId?: number;
+  exchangeSize?: string;
+}
+
+export interface ReturnStatusChange {
+  status: ReturnStatus;
+  changedAt: string;
+}
+
+// A return merchandise authorization (RMA) for part or all of a delivered order
+export interface ReturnRecord {
+  id: number;
+  // Printed on the return label, e.g. RMA-000042
+  rmaNumber: string;
+  orderId: number;
+  userId: number;
+  items: ReturnItemRecord[];
+  reason: string;
+  comment?: string;
+  resolution: ReturnResolution;
+  // The items at the price paid; nothing is refunded for exchanges
+  refundAmount: number;
+  // Where the parcel is sent from, printed on the label
+  fromAddress?: ShippingAddress;
+  status: ReturnStatus;
+  // Every status the return has had, oldest first
+  history: ReturnStatusChange[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoreData {
+  version: number;
+  sequences: Record<string, number>;
+  products: ProductRecord[];
+  categories: CategoryRecord[];
+  promotions: PromotionRecord[];
+  savedItems: SavedItemRecord[];
+  wishlistItems: WishlistItemRecord[];
+  orderStatusEvents: OrderStatusEventRecord[];
+  returns: ReturnRecord[];
+}
+
+// Route handlers are bundled separately by Next.js, so the write queue has to
+// live on the global object to be shared between them
+declare global {
+  var storeWriteQueue: Promise<unknown> | undefined;
+}
+
+export const getStorePath = () =>
+  process.env.DATA_FILE || path.join(process.cwd(), '.data', 'store.json');
+
+const loadStore = async (): Promise<StoreData> => {
+  const filePath = getStorePath();
+  let data: StoreData;
+
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    data = JSON.parse(raw);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    data = { version: 0, sequences: {} } as StoreData;
+  }
+
+  if (migrate(data)) {
+    await saveStore(data);
+  }
+
+  return data;
+};
+
+const saveStore = async (data: StoreData) => {
+  const filePath = getStorePath();
+  const tempPath = `${filePath}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+};
+
+// Serialize every access so a read never observes a half-applied mutation
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const previous = global.storeWriteQueue ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  global.storeWriteQueue = next;
+  return next;
+};
+
+// Read a snapshot of the store
+export const readStore = (): Promise<StoreData> => enqueue(loadStore);
+
+// Apply a mutation and persist the result. Nothing is written if `mutation` throws.
+export const mutateStore = <T>(mutation: (data: StoreData) => T): Promise<T> =>
+  enqueue(async () => {
+    const data = await loadStore();
+    const result = mutation(data);
+    await saveStore(data);
+    return result;
+  });
+
+// Allocate the next id for a table
+export const nextId = (data: StoreData, table: string): number => {
+  const id = (data.sequences[table] ?? 0) + 1;
+  data.sequences[table] = id;
+  return id;
+};
@@ -0,0 +1,51 @@
+import type { NextRequest } from 'next/server';
+import type { TokenClaims } from '../auth/claims';
+import type { ShippingAddress } from '../checkout/address';
+
+// Orders live in the backend. Local API routes that act on one load it from there with the
+// caller's own token instead of trusting order details sent in the request.
+
+export interface BackendOrderItem {
+  id: number;
+  productId: number;
+  variantId?: number;
+  productName: string;
+  size?: string;
+  color?: string;
+  // Unit price the customer paid
+  price: number;
+  quantity: number;
+}
+
+export interface BackendOrder {
+  id: number;
+  userId: number;
+  totalAmount: number;
+  status: string | number;
+  items: BackendOrderItem[];
+  stripePaymentIntentId?: string;
+  shippingAddress?: ShippingAddress;
+  shippingMethod?: string;
+}
+
+// The order as the caller sees it, or null if it doesn't exist or isn't theirs.
+// Admins may load any order.
+export const fetchCallerOrder = async (
+  request: NextRequest,
+  claims: TokenClaims,
+  orderId: number
+): Promise<BackendOrder | null> => {
+  const authorization = request.headers.get('authorization');
+  if (!authorization) return null;
+
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}`, {
+    headers: { 'Authorization': authorization },
+    cache: 'no-store',
+  });
+  if (response.status === 401 || response.status === 403 || response.status === 404) return null;
+  if (!response.ok) throw new Error(`Failed to fetch order ${orderId}: ${response.status}`);
+
+  const order: BackendOrder = await response.json();
+  if (order.userId !== claims.userId && claims.role !== 'admin') return null;
+  return order;
+};
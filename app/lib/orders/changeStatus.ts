@@ -0,0 +1,29 @@
+import { OrderStatus } from './status';
+
+interface ChangeOrderStatusOptions {
+  orderId: number;
+  // The status the caller last saw; the change is refused if the order has moved on since
+  from: OrderStatus;
+  to: OrderStatus;
+  token: string;
+  reason?: string;
+  // The confirmed payment behind a move to Paid, which the server checks with Stripe
+  paymentIntentId?: string;
+}
+
+// Move an order to a new status. The local OrderStatus API checks the move against the
+// order's real status and the caller's role before passing it on to the Order API, and
+// records it in the audit trail. Returns false if the change was refused.
+export const changeOrderStatus = async ({ orderId, from, to, token, reason, paymentIntentId }: ChangeOrderStatusOptions): Promise<boolean> => {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/OrderStatus/${orderId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({ from, to, reason, paymentIntentId }),
+  });
+  if (!response.ok) console.error('Failed to change order status:', response.status);
+
+  return response.ok;
+};
@@ -0,0 +1,94 @@
+import { listProducts } from '../products/repository';
+import { calculateDiscount, type DiscountLine, type DiscountResult } from '../promotions/discounts';
+import { getRedeemedPromotion, toPromotionRule } from '../promotions/repository';
+import { quoteShippingMethods } from '../shipping/methods';
+import { calculateTax, type TaxBreakdown } from '../tax/calculate';
+import type { BackendOrder } from './backend';
+
+// What a placed order is charged. Worked out here, on the server, from the order's own
+// lines, the promo code redeemed against it and its delivery details, with the same
+// discount, shipping and tax engines the cart uses for its estimate.
+
+export interface OrderCharge {
+  subtotal: number;
+  discount: number;
+  // Set when a promo code was redeemed against the order
+  promoCode?: string;
+  shippingCost: number;
+  tax: TaxBreakdown;
+  // What the payment intent is created for
+  amount: number;
+}
+
+// Thrown when an order can't be priced, e.g. its shipping method doesn't deliver to its address
+export class UnpricedOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnpricedOrderError';
+  }
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const toDiscountLines = (order: BackendOrder): DiscountLine[] =>
+  order.items.map(item => ({
+    productId: item.productId,
+    unitPrice: item.price,
+    quantity: item.quantity,
+  }));
+
+// What the promo code redeemed against the order takes off its items, if one was
+export const getOrderDiscount = async (order: BackendOrder): Promise<DiscountResult & { promoCode?: string }> => {
+  const promotion = await getRedeemedPromotion(order.id);
+  if (!promotion) return { amount: 0, freeShipping: false };
+
+  return { ...calculateDiscount(toPromotionRule(promotion), toDiscountLines(order)), promoCode: promotion.code };
+};
+
+export const priceOrder = async (order: BackendOrder): Promise<OrderCharge> => {
+  const { shippingAddress, shippingMethod } = order;
+  if (!shippingAddress || !shippingMethod) {
+    throw new UnpricedOrderError('This order has no delivery details');
+  }
+
+  const lines = toDiscountLines(order);
+  const subtotal = roundCents(lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0));
+  const discount = await getOrderDiscount(order);
+
+  const products = await listProducts();
+  const quote = quoteShippingMethods(
+    {
+      lines: lines.map(line => ({
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        weight: products.find(p => p.id === line.productId)?.weight,
+      })),
+      subtotal: Math.max(0, subtotal - discount.amount),
+      country: shippingAddress.country,
+    },
+    { freeShipping: discount.freeShipping }
+  ).find(q => q.method.id === shippingMethod);
+  if (!quote) {
+    throw new UnpricedOrderError('The order\'s shipping method does not deliver to its address');
+  }
+
+  const tax = calculateTax({
+    lines: order.items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId ?? undefined,
+      amount: item.price * item.quantity,
+    })),
+    discount: discount.amount,
+    shipping: quote.cost,
+    destination: { country: shippingAddress.country, state: shippingAddress.state },
+  });
+
+  return {
+    subtotal,
+    discount: discount.amount,
+    promoCode: discount.promoCode,
+    shippingCost: quote.cost,
+    tax,
+    amount: roundCents(Math.max(0, subtotal - discount.amount) + quote.cost + tax.addedTax),
+  };
+};
@@ -0,0 +1,23 @@
+import { mutateStore, nextId, readStore, type OrderStatusEventRecord } from '../db/store';
+
+export type OrderStatusEvent = OrderStatusEventRecord;
+export type OrderStatusEventInput = Omit<OrderStatusEvent, 'id' | 'changedAt'>;
+
+// Oldest first
+export const listOrderStatusEvents = async (orderId: number): Promise<OrderStatusEvent[]> => {
+  const data = await readStore();
+  return data.orderStatusEvents
+    .filter(event => event.orderId === orderId)
+    .sort((a, b) => a.changedAt.localeCompare(b.changedAt) || a.id - b.id);
+};
+
+export const recordOrderStatusEvent = (input: OrderStatusEventInput): Promise<OrderStatusEvent> =>
+  mutateStore((data) => {
+    const event: OrderStatusEvent = {
+      id: nextId(data, 'orderStatusEvents'),
+      ...input,
+      changedAt: new Date().toISOString(),
+    };
+    data.orderStatusEvents.push(event);
+    return event;
+  });
@@ -0,0 +1,72 @@
+import type { UserRole } from '../auth/claims';
+
+// Order statuses and the moves between them, shared by the customer and admin screens
+// and by the audit trail API so all three agree on what is allowed.
+
+// Declared in the backend's order, so a numeric status is an index into this list
+export enum OrderStatus {
+  Pending = 'Pending',
+  Paid = 'Paid',
+  Shipped = 'Shipped',
+  Delivered = 'Delivered',
+  Cancelled = 'Cancelled',
+}
+
+export const ORDER_STATUSES = Object.values(OrderStatus);
+
+// Who changes a status: a signed-in user, or the app itself once Stripe confirms a payment
+export type OrderActor = UserRole | 'system';
+
+export interface OrderTransition {
+  to: OrderStatus;
+  // Button text
+  label: string;
+  actors: OrderActor[];
+  requiresReason?: boolean;
+}
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderTransition[]> = {
+  [OrderStatus.Pending]: [
+    { to: OrderStatus.Paid, label: 'Mark as Paid', actors: ['system', 'admin'] },
+    { to: OrderStatus.Cancelled, label: 'Cancel Order', actors: ['customer', 'admin'], requiresReason: true },
+  ],
+  [OrderStatus.Paid]: [
+    { to: OrderStatus.Shipped, label: 'Mark as Shipped', actors: ['admin'] },
+    { to: OrderStatus.Cancelled, label: 'Cancel Order', actors: ['customer', 'admin'], requiresReason: true },
+  ],
+  [OrderStatus.Shipped]: [
+    { to: OrderStatus.Delivered, label: 'Mark as Delivered', actors: ['admin'] },
+  ],
+  [OrderStatus.Delivered]: [],
+  [OrderStatus.Cancelled]: [],
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  [OrderStatus.Pending]: 'bg-yellow-100 text-yellow-800',
+  [OrderStatus.Paid]: 'bg-green-100 text-green-800',
+  [OrderStatus.Shipped]: 'bg-blue-100 text-blue-800',
+  [OrderStatus.Delivered]: 'bg-purple-100 text-purple-800',
+  [OrderStatus.Cancelled]: 'bg-red-100 text-red-800',
+};
+
+// The backend may send a status as its name in any case or as its numeric value.
+// Returns null for anything else.
+export const parseOrderStatus = (value: unknown): OrderStatus | null => {
+  if (typeof value === 'number') {
+    return ORDER_STATUSES[value] ?? null;
+  }
+  if (typeof value === 'string') {
+    if (/^\d+$/.test(value)) return ORDER_STATUSES[Number(value)] ?? null;
+    return ORDER_STATUSES.find(status => status.toLowerCase() === value.toLowerCase()) ?? null;
+  }
+  return null;
+};
+
+export const getAllowedTransitions = (status: unknown, actor: OrderActor): OrderTransition[] => {
+  const current = parseOrderStatus(status);
+  if (current === null) return [];
+  return ORDER_TRANSITIONS[current].filter(transition => transition.actors.includes(actor));
+};
+
+export const findTransition = (from: unknown, to: OrderStatus, actor: OrderActor): OrderTransition | undefined =>
+  getAllowedTransitions(from, actor).find(transition => transition.to === to);
@@ -0,0 +1,39 @@
+import { parseOrderStatus, type OrderStatus } from './status';
+
+type ValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+export interface StatusChangeInput {
+  from: OrderStatus;
+  to: OrderStatus;
+  reason?: string;
+  // The payment intent the client confirmed, for a move to Paid the app makes on its own
+  paymentIntentId?: string;
+}
+
+const MAX_REASON_LENGTH = 500;
+
+// Validate the body of PATCH /api/OrderStatus/{orderId}. Whether the caller may make the
+// change is checked separately against the order's real status and the transition table.
+export const validateStatusChangeInput = (body: Record<string, unknown>): ValidationResult<StatusChangeInput> => {
+  const from = parseOrderStatus(body.from);
+  const to = parseOrderStatus(body.to);
+  if (from === null || to === null) {
+    return { error: 'From and to must be order statuses' };
+  }
+
+  if (body.reason !== undefined && body.reason !== null && typeof body.reason !== 'string') {
+    return { error: 'Reason must be a string' };
+  }
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (reason.length > MAX_REASON_LENGTH) {
+    return { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` };
+  }
+
+  if (body.paymentIntentId !== undefined && typeof body.paymentIntentId !== 'string') {
+    return { error: 'Payment intent ID must be a string' };
+  }
+
+  return { data: { from, to, reason: reason || undefined, paymentIntentId: body.paymentIntentId } };
+};
@@ -0,0 +1,51 @@
+// One checkout attempt = one idempotency key. The key is sent with order placement and
+// payment-intent creation so a retried request returns the original order instead of
+// placing another. It is kept for the tab's session and replaced once the cart or the
+// delivery details change.
+
+const CHECKOUT_ATTEMPT_KEY = 'checkout_attempt';
+
+interface CheckoutAttempt {
+  key: string;
+  // What was being bought when the key was issued
+  fingerprint: string;
+}
+
+interface FingerprintLine {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+}
+
+// `details` covers anything else sent with the order, such as the delivery address. The promo
+// code is not part of it: it is redeemed against the order afterwards, so adding or dropping
+// one keeps the attempt and its order.
+export const getCartFingerprint = (items: FingerprintLine[], details?: unknown): string =>
+  [
+    ...items
+      .map(item => `${item.productId}:${item.variantId ?? ''}x${item.quantity}`)
+      .sort(),
+    details === undefined ? '' : JSON.stringify(details),
+  ].join('|');
+
+// The key for the current attempt, reusing the stored one while the cart is unchanged
+export const getCheckoutAttemptKey = (fingerprint: string): string => {
+  const stored = sessionStorage.getItem(CHECKOUT_ATTEMPT_KEY);
+  if (stored) {
+    try {
+      const attempt: CheckoutAttempt = JSON.parse(stored);
+      if (attempt.fingerprint === fingerprint) return attempt.key;
+    } catch {
+      // Fall through and start a new attempt
+    }
+  }
+
+  const attempt: CheckoutAttempt = { key: crypto.randomUUID(), fingerprint };
+  sessionStorage.setItem(CHECKOUT_ATTEMPT_KEY, JSON.stringify(attempt));
+  return attempt.key;
+};
+
+// Call once the attempt's order is paid, so the next checkout places a new order
+export const clearCheckoutAttempt = () => {
+  sessionStorage.removeItem(CHECKOUT_ATTEMPT_KEY);
+};
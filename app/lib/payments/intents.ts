@@ -0,0 +1,20 @@
+// Payment intents looked up with Stripe's API and the secret key in STRIPE_SECRET_KEY. The
+// browser's word that a payment went through isn't enough for a server route to act on.
+
+// The intent's status, e.g. 'succeeded', or null if Stripe has no such intent
+export const fetchPaymentIntentStatus = async (id: string): Promise<string | null> => {
+  const secret = process.env.STRIPE_SECRET_KEY;
+  if (!secret) {
+    throw new Error('STRIPE_SECRET_KEY is not configured');
+  }
+
+  const response = await fetch(`https://api.stripe.com/v1/payment_intents/${encodeURIComponent(id)}`, {
+    headers: { 'Authorization': `Bearer ${secret}` },
+    cache: 'no-store',
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Failed to fetch payment intent ${id}: ${response.status}`);
+
+  const intent: { status: string } = await response.json();
+  return intent.status;
+};
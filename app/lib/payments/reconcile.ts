@@ -0,0 +1,71 @@
+import { clearCheckoutAttempt } from './idempotency';
+import { CHECKOUT_ORDER_KEY } from './stripe';
+import { changeOrderStatus } from '../orders/changeStatus';
+import { OrderStatus, parseOrderStatus } from '../orders/status';
+
+interface ReconcileOptions {
+  orderId: number;
+  // The PaymentIntent Stripe confirmed as succeeded; the order must be the one it was created for
+  paymentIntentId: string;
+  token: string;
+  clearCart: () => Promise<boolean>;
+  fetchCart: () => Promise<void>;
+}
+
+// Orders being reconciled on this page, so a second caller doesn't repeat the work in parallel
+const inProgress = new Map<number, Promise<void>>();
+
+const markOrderPaid = async (orderId: number, paymentIntentId: string, token: string) => {
+  const headers = { 'Authorization': `Bearer ${token}` };
+
+  // Only a pending order moves to Paid; anything further along was already handled
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}`, { headers });
+  if (!response.ok) throw new Error(`Failed to fetch order: ${response.status}`);
+  const order: { status: string | number; stripePaymentIntentId?: string } = await response.json();
+  if (parseOrderStatus(order.status) !== OrderStatus.Pending) return;
+
+  // A payment for one order never pays for another
+  if (order.stripePaymentIntentId !== paymentIntentId) {
+    throw new Error(`Payment ${paymentIntentId} does not belong to order ${orderId}`);
+  }
+
+  const updated = await changeOrderStatus({
+    orderId,
+    from: OrderStatus.Pending,
+    to: OrderStatus.Paid,
+    token,
+    paymentIntentId,
+  });
+  if (!updated) throw new Error('Failed to mark order paid');
+};
+
+// Bring the order and cart in line with a confirmed payment. Runs after both the inline
+// confirmation and the Stripe redirect, so every step is safe to repeat: the order is only
+// moved from Pending, and only by its own payment intent, and the cart is only emptied for
+// the order checked out from it.
+// Resumed payments for older orders just refresh the cart.
+export const reconcilePaidOrder = ({ orderId, paymentIntentId, token, clearCart, fetchCart }: ReconcileOptions): Promise<void> => {
+  const existing = inProgress.get(orderId);
+  if (existing) return existing;
+
+  const run = async () => {
+    try {
+      await markOrderPaid(orderId, paymentIntentId, token);
+    } catch (error) {
+      // The payment went through either way, so carry on and tidy up the cart
+      console.error('Error reconciling order:', error);
+    }
+
+    if (sessionStorage.getItem(CHECKOUT_ORDER_KEY) === String(orderId)) {
+      sessionStorage.removeItem(CHECKOUT_ORDER_KEY);
+      clearCheckoutAttempt();
+      await clearCart();
+    } else {
+      await fetchCart();
+    }
+  };
+
+  const promise = run().finally(() => inProgress.delete(orderId));
+  inProgress.set(orderId, promise);
+  return promise;
+};
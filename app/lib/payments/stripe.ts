@@ -0,0 +1,47 @@
+import { loadStripe, type Stripe, type ConfirmPaymentData } from '@stripe/stripe-js';
+import type { ContactInfo, ShippingAddress } from '../checkout/address';
+
+// Stripe.js is loaded once per page load, with the publishable key served by the backend
+let stripePromise: Promise<Stripe | null> | null = null;
+
+export const getStripe = async () => {
+  if (!stripePromise) {
+    try {
+      // Get the publishable key from the backend
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Payment/config`);
+      const config = await response.json();
+      
+      if (config.publishableKey) {
+        stripePromise = loadStripe(config.publishableKey);
+      } else {
+        throw new Error('Stripe publishable key not found');
+      }
+    } catch (error) {
+      console.error('Failed to load Stripe config:', error);
+      throw error;
+    }
+  }
+  return stripePromise;
+};
+
+// Key under which checkout remembers the order being paid for from the cart, so the
+// cart is only cleared once that order's payment is confirmed
+export const CHECKOUT_ORDER_KEY = 'checkout_order_id';
+
+
+// The checkout address in the shape `confirmPayment` takes for shipping details
+export const toStripeShipping = (
+  address: ShippingAddress,
+  contact?: ContactInfo
+): NonNullable<ConfirmPaymentData['shipping']> => ({
+  name: address.fullName,
+  phone: contact?.phone || undefined,
+  address: {
+    line1: address.line1,
+    line2: address.line2,
+    city: address.city,
+    state: address.state,
+    postal_code: address.postalCode,
+    country: address.country,
+  },
+});
@@ -0,0 +1,61 @@
+// Sale pricing helpers shared by the Product API and the storefront.
+// While a sale is on, `price` is the compare-at price and `salePrice` is what the customer pays.
+
+interface PricedProduct {
+  price: number;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
+  variants?: { id: number; price?: number }[];
+}
+
+export interface PriceInfo {
+  // What the customer pays right now
+  price: number;
+  // The regular price; only set while a sale is running
+  compareAtPrice?: number;
+  percentOff?: number;
+}
+
+// A sale runs from `saleStartsAt` (inclusive) until `saleEndsAt` (exclusive); either end may be open
+export const isSaleActive = (product: PricedProduct, now = new Date()): boolean => {
+  if (product.salePrice === undefined) return false;
+  if (product.saleStartsAt && new Date(product.saleStartsAt) > now) return false;
+  if (product.saleEndsAt && new Date(product.saleEndsAt) <= now) return false;
+  return true;
+};
+
+export const getPercentOff = (compareAtPrice: number, price: number) =>
+  Math.round((1 - price / compareAtPrice) * 100);
+
+// Current price of a product, or of one of its variants when `variantId` is given.
+// Variants with their own price get the same percentage off as the product.
+export const getPriceInfo = (product: PricedProduct, variantId?: number, now = new Date()): PriceInfo => {
+  const variant = variantId !== undefined ? product.variants?.find(v => v.id === variantId) : undefined;
+  const regularPrice = variant?.price ?? product.price;
+
+  if (!isSaleActive(product, now) || product.salePrice === undefined) {
+    return { price: regularPrice };
+  }
+
+  const price = variant?.price === undefined
+    ? product.salePrice
+    : Math.round(regularPrice * (product.salePrice / product.price) * 100) / 100;
+
+  return {
+    price,
+    compareAtPrice: regularPrice,
+    percentOff: getPercentOff(regularPrice, price),
+  };
+};
+
+// The next time a scheduled sale starts or ends, so open pages can refresh their prices
+export const getNextPriceChange = (product: PricedProduct, now = new Date()): Date | undefined => {
+  if (product.salePrice === undefined) return undefined;
+
+  return [product.saleStartsAt, product.saleEndsAt]
+    .filter((time): time is string => !!time)
+    .map(time => new Date(time))
+    .filter(time => time > now)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+};
@@ -0,0 +1,245 @@
+import { mutateStore, nextId, readStore, type ProductRecord, type StoreData, type VariantRecord } from '../db/store';
+import { assertCategoriesExist, getDescendantIds } from '../categories/repository';
+import { getPriceInfo, isSaleActive } from './pricing';
+
+export type Product = ProductRecord;
+export type ProductVariant = VariantRecord;
+
+export type ProductInput = Pick<
+  Product,
+  'name' | 'description' | 'price' | 'salePrice' | 'saleStartsAt' | 'saleEndsAt' | 'image' | 'stock' | 'weight'
+> & {
+  categoryIds?: number[];
+};
+export type VariantInput = Omit<ProductVariant, 'id'>;
+
+// Thrown when a variant would reuse a SKU that already exists anywhere in the catalog
+export class DuplicateSkuError extends Error {
+  constructor(sku: string) {
+    super(`SKU ${sku} is already in use`);
+    this.name = 'DuplicateSkuError';
+  }
+}
+
+// Thrown when a product's sale price or schedule doesn't fit its regular price
+export class InvalidSaleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSaleError';
+  }
+}
+
+// Checked against the merged product, since a PATCH may change only one side of the comparison
+const assertValidSale = (product: Product) => {
+  if (product.salePrice !== undefined && product.salePrice >= product.price) {
+    throw new InvalidSaleError('Sale price must be lower than the regular price');
+  }
+  if (product.saleStartsAt && product.saleEndsAt && product.saleStartsAt >= product.saleEndsAt) {
+    throw new InvalidSaleError('Sale end must be after the sale start');
+  }
+};
+
+export const listProducts = async (): Promise<Product[]> => {
+  const data = await readStore();
+  return data.products;
+};
+
+export type ProductSortField = 'price' | 'name' | 'createdAt';
+
+export interface ProductQuery {
+  q?: string;
+  // Category slug; matches products in the category or any of its subcategories
+  category?: string;
+  // Only products whose sale is running right now
+  onSale?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  sort: ProductSortField;
+  order: 'asc' | 'desc';
+  page: number;
+  limit: number;
+}
+
+export interface ProductPage {
+  items: Product[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Price filters and sorting use what the customer pays now, so sale items move as sales start and end
+const compareProducts = (field: ProductSortField) => (a: Product, b: Product) => {
+  switch (field) {
+    case 'price':
+      return getPriceInfo(a).price - getPriceInfo(b).price;
+    case 'name':
+      return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+    case 'createdAt':
+      return a.createdAt.localeCompare(b.createdAt) || a.id - b.id;
+  }
+};
+
+// Filter, sort and paginate the catalog. `total` counts every match, not just the current page.
+export const queryProducts = async (query: ProductQuery): Promise<ProductPage> => {
+  const data = await readStore();
+  const terms = (query.q ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  let categoryIds: number[] | null = null;
+  if (query.category) {
+    const category = data.categories.find(c => c.slug === query.category);
+    categoryIds = category ? getDescendantIds(data.categories, category.id) : [];
+  }
+
+  const matches = data.products.filter((product) => {
+    const { price } = getPriceInfo(product);
+    if (categoryIds && !product.categoryIds.some(id => categoryIds.includes(id))) return false;
+    if (query.onSale && !isSaleActive(product)) return false;
+    if (query.minPrice !== undefined && price < query.minPrice) return false;
+    if (query.maxPrice !== undefined && price > query.maxPrice) return false;
+
+    const haystack = `${product.name} ${product.description}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+
+  const direction = query.order === 'desc' ? -1 : 1;
+  const compare = compareProducts(query.sort);
+  matches.sort((a, b) => compare(a, b) * direction);
+
+  const start = (query.page - 1) * query.limit;
+
+  return {
+    items: matches.slice(start, start + query.limit),
+    total: matches.length,
+    page: query.page,
+    limit: query.limit,
+    totalPages: Math.max(1, Math.ceil(matches.length / query.limit)),
+  };
+};
+
+export const getProduct = async (id: number): Promise<Product | null> => {
+  const data = await readStore();
+  return data.products.find(p => p.id === id) ?? null;
+};
+
+// Current unit prices for cart lines, after any running sale.
+// Returns null if a product or variant no longer exists.
+export const priceCartLines = async (
+  items: { productId: number; variantId?: number; quantity: number }[]
+): Promise<{ productId: number; unitPrice: number; quantity: number }[] | null> => {
+  const data = await readStore();
+  const lines = [];
+
+  for (const item of items) {
+    const product = data.products.find(p => p.id === item.productId);
+    if (!product) return null;
+    if (item.variantId !== undefined && !product.variants.some(v => v.id === item.variantId)) return null;
+
+    lines.push({
+      productId: item.productId,
+      unitPrice: getPriceInfo(product, item.variantId).price,
+      quantity: item.quantity,
+    });
+  }
+
+  return lines;
+};
+
+export const createProduct = (input: ProductInput): Promise<Product> =>
+  mutateStore((data) => {
+    assertCategoriesExist(data, input.categoryIds ?? []);
+
+    const now = new Date().toISOString();
+    const product: Product = {
+      id: nextId(data, 'products'),
+      ...input,
+      categoryIds: input.categoryIds ?? [],
+      variants: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    assertValidSale(product);
+
+    data.products.push(product);
+    return product;
+  });
+
+// Returns null if the product does not exist
+export const updateProduct = (id: number, changes: Partial<ProductInput>): Promise<Product | null> =>
+  mutateStore((data) => {
+    const index = data.products.findIndex(p => p.id === id);
+    if (index === -1) return null;
+
+    if (changes.categoryIds) assertCategoriesExist(data, changes.categoryIds);
+
+    const updated: Product = {
+      ...data.products[index],
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    assertValidSale(updated);
+
+    data.products[index] = updated;
+    return updated;
+  });
+
+// Returns the removed product, or null if it did not exist
+export const deleteProduct = (id: number): Promise<Product | null> =>
+  mutateStore((data) => {
+    const index = data.products.findIndex(p => p.id === id);
+    if (index === -1) return null;
+
+    return data.products.splice(index, 1)[0];
+  });
+
+const assertSkuAvailable = (data: StoreData, sku: string, exceptVariantId?: number) => {
+  const normalized = sku.toLowerCase();
+  const taken = data.products.some(p =>
+    p.variants.some(v => v.id !== exceptVariantId && v.sku.toLowerCase() === normalized)
+  );
+  if (taken) throw new DuplicateSkuError(sku);
+};
+
+// Returns null if the product does not exist
+export const createVariant = (productId: number, input: VariantInput): Promise<ProductVariant | null> =>
+  mutateStore((data) => {
+    const product = data.products.find(p => p.id === productId);
+    if (!product) return null;
+
+    assertSkuAvailable(data, input.sku);
+
+    const variant: ProductVariant = { id: nextId(data, 'variants'), ...input };
+    product.variants.push(variant);
+    product.updatedAt = new Date().toISOString();
+    return variant;
+  });
+
+// Returns null if the product or variant does not exist
+export const updateVariant = (
+  productId: number,
+  variantId: number,
+  changes: Partial<VariantInput>
+): Promise<ProductVariant | null> =>
+  mutateStore((data) => {
+    const product = data.products.find(p => p.id === productId);
+    const index = product?.variants.findIndex(v => v.id === variantId) ?? -1;
+    if (!product || index === -1) return null;
+
+    if (changes.sku) assertSkuAvailable(data, changes.sku, variantId);
+
+    const updated: ProductVariant = { ...product.variants[index], ...changes };
+    product.variants[index] = updated;
+    product.updatedAt = new Date().toISOString();
+    return updated;
+  });
+
+// Returns the removed variant, or null if it did not exist
+export const deleteVariant = (productId: number, variantId: number): Promise<ProductVariant | null> =>
+  mutateStore((data) => {
+    const product = data.products.find(p => p.id === productId);
+    const index = product?.variants.findIndex(v => v.id === variantId) ?? -1;
+    if (!product || index === -1) return null;
+
+    product.updatedAt = new Date().toISOString();
+    return product.variants.splice(index, 1)[0];
+  });
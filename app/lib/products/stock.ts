@@ -0,0 +1,38 @@
+// Stock helpers shared by the Product API and the storefront.
+// A missing `stock` means the item is not inventory-tracked and never runs out.
+
+export const LOW_STOCK_THRESHOLD = 5;
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+interface Stocked {
+  stock?: number;
+}
+
+interface StockedProduct extends Stocked {
+  variants?: (Stocked & { id: number })[];
+}
+
+export const getStockStatus = (stock?: number): StockStatus => {
+  if (stock === undefined) return 'in_stock';
+  if (stock <= 0) return 'out_of_stock';
+  if (stock <= LOW_STOCK_THRESHOLD) return 'low_stock';
+  return 'in_stock';
+};
+
+// Units available for a product, or for one of its variants when `variantId` is given.
+// With no variant picked, a product with variants has the sum of its variants' stock.
+export const getAvailableStock = (product: StockedProduct, variantId?: number): number | undefined => {
+  const variants = product.variants ?? [];
+
+  if (variantId !== undefined) {
+    return variants.find(v => v.id === variantId)?.stock;
+  }
+
+  if (variants.length > 0) {
+    if (variants.some(v => v.stock === undefined)) return undefined;
+    return variants.reduce((total, v) => total + (v.stock ?? 0), 0);
+  }
+
+  return product.stock;
+};
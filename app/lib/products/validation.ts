@@ -0,0 +1,318 @@
+import type { ProductInput, ProductQuery, ProductSortField, VariantInput } from './repository';
+
+const isValidStock = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+
+// null or omitted stock means the item is not inventory-tracked
+const toStock = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+const isValidWeight = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'number' && value > 0);
+
+const isValidSalePrice = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'number' && value > 0);
+
+const isValidTimestamp = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && !isNaN(Date.parse(value)));
+
+// Store schedule times as ISO strings so they compare correctly as text
+const toTimestamp = (value: unknown) => (typeof value === 'string' ? new Date(value).toISOString() : undefined);
+
+const isValidCategoryIds = (value: unknown) =>
+  Array.isArray(value) && value.every(id => typeof id === 'number' && Number.isInteger(id));
+
+const uniqueIds = (ids: number[]) => Array.from(new Set(ids));
+
+type ValidationResult =
+  | { data: ProductInput; error?: undefined }
+  | { data?: undefined; error: string };
+
+// Validate a full product payload as sent by POST and PUT.
+// Omitting the sale fields on PUT ends any sale; the repository checks them against the price.
+export const validateProductInput = (body: Record<string, unknown>): ValidationResult => {
+  const { name, description, price, salePrice, saleStartsAt, saleEndsAt, image, stock, weight } = body;
+
+  if (!name || !description || !price) {
+    return { error: 'Name, description, and price are required' };
+  }
+
+  if (typeof price !== 'number' || price <= 0) {
+    return { error: 'Price must be a positive number' };
+  }
+
+  if (typeof name !== 'string' || name.length > 100) {
+    return { error: 'Name must be 100 characters or less' };
+  }
+
+  if (typeof description !== 'string' || description.length > 500) {
+    return { error: 'Description must be 500 characters or less' };
+  }
+
+  if (!isValidSalePrice(salePrice)) {
+    return { error: 'Sale price must be a positive number or null' };
+  }
+
+  if (!isValidTimestamp(saleStartsAt) || !isValidTimestamp(saleEndsAt)) {
+    return { error: 'Sale start and end must be ISO 8601 timestamps or null' };
+  }
+
+  if (!isValidStock(stock)) {
+    return { error: 'Stock must be a non-negative integer or null' };
+  }
+
+  if (!isValidWeight(weight)) {
+    return { error: 'Weight must be a positive number of kilograms or null' };
+  }
+
+  if ('categoryIds' in body && !isValidCategoryIds(body.categoryIds)) {
+    return { error: 'Category IDs must be an array of integers' };
+  }
+
+  const data: ProductInput = {
+    name,
+    description,
+    price,
+    salePrice: typeof salePrice === 'number' ? salePrice : undefined,
+    saleStartsAt: toTimestamp(saleStartsAt),
+    saleEndsAt: toTimestamp(saleEndsAt),
+    image: typeof image === 'string' && image ? image : undefined,
+    stock: toStock(stock),
+    weight: typeof weight === 'number' ? weight : undefined,
+  };
+
+  // Leave categories untouched on PUT unless they were sent
+  if ('categoryIds' in body) {
+    data.categoryIds = uniqueIds(body.categoryIds as number[]);
+  }
+
+  return { data };
+};
+
+type PartialValidationResult =
+  | { data: Partial<ProductInput>; error?: undefined }
+  | { data?: undefined; error: string };
+
+// Validate a PATCH payload: only the fields present are checked and returned.
+// Sending `image: null` or an empty string removes the image; `stock: null` stops tracking inventory;
+// `weight: null` clears the shipping weight;
+// `salePrice: null` ends the sale and a null sale start or end leaves that side of the schedule open.
+export const validateProductChanges = (body: Record<string, unknown>): PartialValidationResult => {
+  const changes: Partial<ProductInput> = {};
+
+  if ('name' in body) {
+    if (typeof body.name !== 'string' || !body.name) {
+      return { error: 'Name cannot be empty' };
+    }
+    if (body.name.length > 100) {
+      return { error: 'Name must be 100 characters or less' };
+    }
+    changes.name = body.name;
+  }
+
+  if ('description' in body) {
+    if (typeof body.description !== 'string' || !body.description) {
+      return { error: 'Description cannot be empty' };
+    }
+    if (body.description.length > 500) {
+      return { error: 'Description must be 500 characters or less' };
+    }
+    changes.description = body.description;
+  }
+
+  if ('price' in body) {
+    if (typeof body.price !== 'number' || body.price <= 0) {
+      return { error: 'Price must be a positive number' };
+    }
+    changes.price = body.price;
+  }
+
+  if ('salePrice' in body) {
+    if (!isValidSalePrice(body.salePrice)) {
+      return { error: 'Sale price must be a positive number or null' };
+    }
+    changes.salePrice = typeof body.salePrice === 'number' ? body.salePrice : undefined;
+  }
+
+  for (const key of ['saleStartsAt', 'saleEndsAt'] as const) {
+    if (key in body) {
+      if (!isValidTimestamp(body[key])) {
+        return { error: 'Sale start and end must be ISO 8601 timestamps or null' };
+      }
+      changes[key] = toTimestamp(body[key]);
+    }
+  }
+
+  if ('image' in body) {
+    if (body.image !== null && typeof body.image !== 'string') {
+      return { error: 'Image must be a URL string or null' };
+    }
+    changes.image = body.image || undefined;
+  }
+
+  if ('stock' in body) {
+    if (!isValidStock(body.stock)) {
+      return { error: 'Stock must be a non-negative integer or null' };
+    }
+    changes.stock = toStock(body.stock);
+  }
+
+  if ('weight' in body) {
+    if (!isValidWeight(body.weight)) {
+      return { error: 'Weight must be a positive number of kilograms or null' };
+    }
+    changes.weight = typeof body.weight === 'number' ? body.weight : undefined;
+  }
+
+  if ('categoryIds' in body) {
+    if (!isValidCategoryIds(body.categoryIds)) {
+      return { error: 'Category IDs must be an array of integers' };
+    }
+    changes.categoryIds = uniqueIds(body.categoryIds as number[]);
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: 'At least one of name, description, price, salePrice, saleStartsAt, saleEndsAt, image, stock, weight, or categoryIds is required' };
+  }
+
+  return { data: changes };
+};
+
+type QueryParseResult =
+  | { data: ProductQuery; error?: undefined }
+  | { data?: undefined; error: string };
+
+const SORT_FIELDS: ProductSortField[] = ['price', 'name', 'createdAt'];
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 100;
+
+const parseNumberParam = (value: string | null): number | undefined | null => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Parse the search, filter, sort and pagination parameters of GET /api/Product
+export const parseProductQuery = (params: URLSearchParams): QueryParseResult => {
+  const minPrice = parseNumberParam(params.get('minPrice'));
+  const maxPrice = parseNumberParam(params.get('maxPrice'));
+  if (minPrice === null || maxPrice === null) {
+    return { error: 'minPrice and maxPrice must be numbers' };
+  }
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    return { error: 'minPrice cannot be greater than maxPrice' };
+  }
+
+  const sort = params.get('sort') || 'createdAt';
+  if (!SORT_FIELDS.includes(sort as ProductSortField)) {
+    return { error: `sort must be one of ${SORT_FIELDS.join(', ')}` };
+  }
+
+  const order = params.get('order') || 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  const page = parseNumberParam(params.get('page')) ?? 1;
+  const limit = parseNumberParam(params.get('limit')) ?? DEFAULT_LIMIT;
+  if (page === null || !Number.isInteger(page) || page < 1) {
+    return { error: 'page must be a positive integer' };
+  }
+  if (limit === null || !Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+  }
+
+  return {
+    data: {
+      q: params.get('q')?.trim() || undefined,
+      category: params.get('category') || undefined,
+      onSale: params.get('onSale') === 'true' || undefined,
+      minPrice,
+      maxPrice,
+      sort: sort as ProductSortField,
+      order,
+      page,
+      limit,
+    },
+  };
+};
+
+type VariantValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+// Check the fields of a variant payload that are present; shared by create and PATCH
+const collectVariantFields = (body: Record<string, unknown>): VariantValidationResult<Partial<VariantInput>> => {
+  const fields: Partial<VariantInput> = {};
+
+  if ('sku' in body) {
+    if (typeof body.sku !== 'string' || !body.sku.trim()) {
+      return { error: 'SKU cannot be empty' };
+    }
+    if (body.sku.length > 64) {
+      return { error: 'SKU must be 64 characters or less' };
+    }
+    fields.sku = body.sku.trim();
+  }
+
+  for (const key of ['size', 'color'] as const) {
+    if (key in body && body[key] !== null && body[key] !== '') {
+      const value = body[key];
+      if (typeof value !== 'string' || value.length > 30) {
+        return { error: `${key === 'size' ? 'Size' : 'Color'} must be 30 characters or less` };
+      }
+      fields[key] = value.trim();
+    } else if (key in body) {
+      fields[key] = undefined;
+    }
+  }
+
+  if ('price' in body && body.price !== null) {
+    if (typeof body.price !== 'number' || body.price <= 0) {
+      return { error: 'Variant price must be a positive number' };
+    }
+    fields.price = body.price;
+  } else if ('price' in body) {
+    fields.price = undefined;
+  }
+
+  if ('image' in body) {
+    if (body.image !== null && typeof body.image !== 'string') {
+      return { error: 'Image must be a URL string or null' };
+    }
+    fields.image = body.image || undefined;
+  }
+
+  if ('stock' in body) {
+    if (!isValidStock(body.stock)) {
+      return { error: 'Stock must be a non-negative integer or null' };
+    }
+    fields.stock = toStock(body.stock);
+  }
+
+  return { data: fields };
+};
+
+// Validate a new variant. `price` is optional and falls back to the product price.
+export const validateVariantInput = (body: Record<string, unknown>): VariantValidationResult<VariantInput> => {
+  if (!body.sku) {
+    return { error: 'SKU is required' };
+  }
+
+  const result = collectVariantFields(body);
+  if (result.error !== undefined) return result;
+
+  return { data: { ...result.data, sku: result.data.sku as string } };
+};
+
+// Validate a variant PATCH payload: only the fields present are checked and returned.
+// Sending null for size, color, price, image or stock clears that field.
+export const validateVariantChanges = (body: Record<string, unknown>): VariantValidationResult<Partial<VariantInput>> => {
+  const result = collectVariantFields(body);
+  if (result.error !== undefined) return result;
+
+  if (Object.keys(result.data).length === 0) {
+    return { error: 'At least one of sku, size, color, price, image, or stock is required' };
+  }
+
+  return result;
+};
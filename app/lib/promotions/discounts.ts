@@ -0,0 +1,105 @@
+import type { PromotionType } from '../db/store';
+
+// Discount calculation shared by the Promo API and the cart, so totals match on both sides.
+
+// The parts of a promotion needed to price a cart; safe to send to the browser
+export interface PromotionRule {
+  code: string;
+  type: PromotionType;
+  description?: string;
+  value?: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  productIds?: number[];
+  minSubtotal?: number;
+}
+
+export interface DiscountLine {
+  productId: number;
+  // What the customer pays per unit, after any sale
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface DiscountResult {
+  // Amount taken off the merchandise subtotal
+  amount: number;
+  freeShipping: boolean;
+  // Why the code takes nothing off right now, e.g. a minimum spend not yet reached
+  message?: string;
+}
+
+const NO_DISCOUNT: DiscountResult = { amount: 0, freeShipping: false };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const sumLines = (lines: DiscountLine[]) =>
+  lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0);
+
+// Every full group of buy + get units makes `get` units free, cheapest first. Worked out per
+// price rather than per unit, so large quantities cost nothing extra to price.
+const getBuyXGetYDiscount = (rule: PromotionRule, lines: DiscountLine[]): DiscountResult => {
+  const buy = rule.buyQuantity ?? 1;
+  const get = rule.getQuantity ?? 1;
+
+  const unitCount = lines.reduce((total, line) => total + line.quantity, 0);
+  const freeUnits = Math.floor(unitCount / (buy + get)) * get;
+
+  if (freeUnits === 0) {
+    const needed = buy + get - unitCount;
+    return { ...NO_DISCOUNT, message: `Add ${needed} more qualifying item${needed !== 1 ? 's' : ''} to use this code` };
+  }
+
+  let remaining = freeUnits;
+  let amount = 0;
+  for (const line of [...lines].sort((a, b) => a.unitPrice - b.unitPrice)) {
+    const free = Math.min(line.quantity, remaining);
+    amount += free * line.unitPrice;
+    remaining -= free;
+    if (remaining === 0) break;
+  }
+
+  return { amount: roundCents(amount), freeShipping: false };
+};
+
+export const calculateDiscount = (rule: PromotionRule, lines: DiscountLine[]): DiscountResult => {
+  if (rule.minSubtotal !== undefined && sumLines(lines) < rule.minSubtotal) {
+    return { ...NO_DISCOUNT, message: `Spend $${rule.minSubtotal.toFixed(2)} or more to use this code` };
+  }
+
+  const eligible = rule.productIds?.length
+    ? lines.filter(line => rule.productIds?.includes(line.productId))
+    : lines;
+  if (eligible.length === 0) {
+    return { ...NO_DISCOUNT, message: 'No items in your cart qualify for this code' };
+  }
+
+  const eligibleSubtotal = sumLines(eligible);
+
+  switch (rule.type) {
+    case 'percentage':
+      return { amount: roundCents(eligibleSubtotal * (rule.value ?? 0) / 100), freeShipping: false };
+    case 'fixed':
+      return { amount: roundCents(Math.min(rule.value ?? 0, eligibleSubtotal)), freeShipping: false };
+    case 'free_shipping':
+      return { amount: 0, freeShipping: true };
+    case 'buy_x_get_y':
+      return getBuyXGetYDiscount(rule, eligible);
+  }
+};
+
+// Short human label, e.g. "20% off" or "Buy 2, get 1 free"
+export const describePromotion = (rule: PromotionRule): string => {
+  if (rule.description) return rule.description;
+
+  switch (rule.type) {
+    case 'percentage':
+      return `${rule.value}% off`;
+    case 'fixed':
+      return `$${(rule.value ?? 0).toFixed(2)} off`;
+    case 'free_shipping':
+      return 'Free shipping';
+    case 'buy_x_get_y':
+      return `Buy ${rule.buyQuantity}, get ${rule.getQuantity} free`;
+  }
+};
@@ -0,0 +1,170 @@
+import { mutateStore, nextId, readStore, type PromotionRecord, type StoreData } from '../db/store';
+import type { PromotionRule } from './discounts';
+
+export type Promotion = PromotionRecord;
+
+export type PromotionInput = Omit<Promotion, 'id' | 'redemptions' | 'createdAt' | 'updatedAt'>;
+
+// Thrown when a promotion's fields don't add up, e.g. a percentage code without a percentage
+export class InvalidPromotionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPromotionError';
+  }
+}
+
+// Thrown when a code would reuse one that already exists
+export class PromotionConflictError extends Error {
+  constructor(code: string) {
+    super(`Promo code ${code} already exists`);
+    this.name = 'PromotionConflictError';
+  }
+}
+
+// Thrown when a code exists but can't be used right now
+export class PromotionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromotionUnavailableError';
+  }
+}
+
+const findByCode = (data: StoreData, code: string) =>
+  data.promotions.find(p => p.code === code.trim().toUpperCase());
+
+// Checked against the merged promotion, since a PATCH may change the type without its values
+const assertValidPromotion = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case 'percentage':
+      if (promotion.value === undefined || promotion.value <= 0 || promotion.value > 100) {
+        throw new InvalidPromotionError('Percentage codes need a value between 0 and 100');
+      }
+      break;
+    case 'fixed':
+      if (promotion.value === undefined || promotion.value <= 0) {
+        throw new InvalidPromotionError('Fixed-amount codes need a positive value');
+      }
+      break;
+    case 'buy_x_get_y':
+      if (!promotion.buyQuantity || !promotion.getQuantity) {
+        throw new InvalidPromotionError('Buy X get Y codes need buyQuantity and getQuantity');
+      }
+      break;
+  }
+
+  if (promotion.startsAt && promotion.expiresAt && promotion.startsAt >= promotion.expiresAt) {
+    throw new InvalidPromotionError('Expiry must be after the start');
+  }
+};
+
+// Throws unless the promotion can be used now. Re-redeeming for the same order is always allowed.
+export const assertPromotionAvailable = (promotion: Promotion, now = new Date(), orderId?: number) => {
+  if (orderId !== undefined && promotion.redemptions.some(r => r.orderId === orderId)) return;
+
+  if (!promotion.active) {
+    throw new PromotionUnavailableError('This promo code is no longer available');
+  }
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    throw new PromotionUnavailableError('This promo code is not active yet');
+  }
+  if (promotion.expiresAt && new Date(promotion.expiresAt) <= now) {
+    throw new PromotionUnavailableError('This promo code has expired');
+  }
+  if (promotion.usageLimit !== undefined && promotion.redemptions.length >= promotion.usageLimit) {
+    throw new PromotionUnavailableError('This promo code has reached its usage limit');
+  }
+};
+
+// Strip usage and scheduling details before sending a promotion to a shopper
+export const toPromotionRule = (promotion: Promotion): PromotionRule => ({
+  code: promotion.code,
+  type: promotion.type,
+  description: promotion.description,
+  value: promotion.value,
+  buyQuantity: promotion.buyQuantity,
+  getQuantity: promotion.getQuantity,
+  productIds: promotion.productIds,
+  minSubtotal: promotion.minSubtotal,
+});
+
+export const listPromotions = async (): Promise<Promotion[]> => {
+  const data = await readStore();
+  return data.promotions;
+};
+
+export const getPromotionByCode = async (code: string): Promise<Promotion | null> => {
+  const data = await readStore();
+  return findByCode(data, code) ?? null;
+};
+
+export const createPromotion = (input: PromotionInput): Promise<Promotion> =>
+  mutateStore((data) => {
+    if (findByCode(data, input.code)) throw new PromotionConflictError(input.code);
+
+    const now = new Date().toISOString();
+    const promotion: Promotion = {
+      id: nextId(data, 'promotions'),
+      ...input,
+      redemptions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    assertValidPromotion(promotion);
+
+    data.promotions.push(promotion);
+    return promotion;
+  });
+
+// Returns null if the promotion does not exist
+export const updatePromotion = (id: number, changes: Partial<PromotionInput>): Promise<Promotion | null> =>
+  mutateStore((data) => {
+    const index = data.promotions.findIndex(p => p.id === id);
+    if (index === -1) return null;
+
+    const existing = changes.code ? findByCode(data, changes.code) : undefined;
+    if (existing && existing.id !== id) throw new PromotionConflictError(changes.code as string);
+
+    const updated: Promotion = {
+      ...data.promotions[index],
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    assertValidPromotion(updated);
+
+    data.promotions[index] = updated;
+    return updated;
+  });
+
+// Returns the removed promotion, or null if it did not exist
+export const deletePromotion = (id: number): Promise<Promotion | null> =>
+  mutateStore((data) => {
+    const index = data.promotions.findIndex(p => p.id === id);
+    if (index === -1) return null;
+
+    return data.promotions.splice(index, 1)[0];
+  });
+
+// The promotion redeemed against an order, if any
+export const getRedeemedPromotion = async (orderId: number): Promise<Promotion | null> => {
+  const data = await readStore();
+  return data.promotions.find(p => p.redemptions.some(r => r.orderId === orderId)) ?? null;
+};
+
+// Record that `code` was used on an order. Safe to repeat for the same order; an order takes
+// one code. Returns null if the code does not exist.
+export const redeemPromotion = (code: string, orderId: number, userId?: number): Promise<Promotion | null> =>
+  mutateStore((data) => {
+    const promotion = findByCode(data, code);
+    if (!promotion) return null;
+
+    const other = data.promotions.find(p => p.id !== promotion.id && p.redemptions.some(r => r.orderId === orderId));
+    if (other) {
+      throw new PromotionUnavailableError(`Promo code ${other.code} has already been used on this order`);
+    }
+    assertPromotionAvailable(promotion, new Date(), orderId);
+
+    if (!promotion.redemptions.some(r => r.orderId === orderId)) {
+      promotion.redemptions.push({ orderId, userId, redeemedAt: new Date().toISOString() });
+    }
+    return promotion;
+  });
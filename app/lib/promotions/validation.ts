@@ -0,0 +1,176 @@
+import type { PromotionType } from '../db/store';
+import type { PromotionInput } from './repository';
+
+type ValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+const PROMOTION_TYPES: PromotionType[] = ['percentage', 'fixed', 'free_shipping', 'buy_x_get_y'];
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/i;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const collectPromotionFields = (body: Record<string, unknown>): ValidationResult<Partial<PromotionInput>> => {
+  const fields: Partial<PromotionInput> = {};
+
+  if ('code' in body) {
+    if (typeof body.code !== 'string' || !CODE_PATTERN.test(body.code.trim())) {
+      return { error: 'Code must be 3-32 letters, numbers, hyphens or underscores' };
+    }
+    fields.code = body.code.trim().toUpperCase();
+  }
+
+  if ('type' in body) {
+    if (!PROMOTION_TYPES.includes(body.type as PromotionType)) {
+      return { error: `Type must be one of ${PROMOTION_TYPES.join(', ')}` };
+    }
+    fields.type = body.type as PromotionType;
+  }
+
+  if ('description' in body) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'Description must be a string or null' };
+    }
+    if (typeof body.description === 'string' && body.description.length > 200) {
+      return { error: 'Description must be 200 characters or less' };
+    }
+    fields.description = body.description || undefined;
+  }
+
+  for (const key of ['value', 'minSubtotal'] as const) {
+    if (key in body) {
+      if (body[key] !== null && !isPositiveNumber(body[key])) {
+        return { error: `${key} must be a positive number or null` };
+      }
+      fields[key] = (body[key] as number | null) ?? undefined;
+    }
+  }
+
+  for (const key of ['buyQuantity', 'getQuantity', 'usageLimit'] as const) {
+    if (key in body) {
+      if (body[key] !== null && !isPositiveInteger(body[key])) {
+        return { error: `${key} must be a positive integer or null` };
+      }
+      fields[key] = (body[key] as number | null) ?? undefined;
+    }
+  }
+
+  if ('productIds' in body) {
+    const ids = body.productIds;
+    if (ids !== null && !(Array.isArray(ids) && ids.every(id => Number.isInteger(id)))) {
+      return { error: 'Product IDs must be an array of integers or null' };
+    }
+    fields.productIds = Array.isArray(ids) && ids.length > 0 ? Array.from(new Set(ids as number[])) : undefined;
+  }
+
+  for (const key of ['startsAt', 'expiresAt'] as const) {
+    if (key in body) {
+      const value = body[key];
+      if (value !== null && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+        return { error: `${key} must be an ISO 8601 timestamp or null` };
+      }
+      fields[key] = typeof value === 'string' ? new Date(value).toISOString() : undefined;
+    }
+  }
+
+  if ('active' in body) {
+    if (typeof body.active !== 'boolean') {
+      return { error: 'Active must be true or false' };
+    }
+    fields.active = body.active;
+  }
+
+  return { data: fields };
+};
+
+// Validate a new promotion. Codes are active unless `active: false` is sent.
+export const validatePromotionInput = (body: Record<string, unknown>): ValidationResult<PromotionInput> => {
+  if (!body.code || !body.type) {
+    return { error: 'Code and type are required' };
+  }
+
+  const result = collectPromotionFields({ active: true, ...body });
+  if (result.error !== undefined) return result;
+
+  return { data: result.data as PromotionInput };
+};
+
+// Validate a promotion PATCH payload; null clears an optional field
+export const validatePromotionChanges = (body: Record<string, unknown>): ValidationResult<Partial<PromotionInput>> => {
+  const result = collectPromotionFields(body);
+  if (result.error !== undefined) return result;
+
+  if (Object.keys(result.data).length === 0) {
+    return { error: 'At least one promotion field is required' };
+  }
+
+  return result;
+};
+
+export interface CartLineInput {
+  productId: number;
+  variantId?: number;
+  quantity: number;
+}
+
+export interface DiscountRequest {
+  code: string;
+  items: CartLineInput[];
+}
+
+// Far beyond any real cart; keeps a priced request small
+const MAX_CART_LINES = 100;
+const MAX_LINE_QUANTITY = 999;
+
+// Validate the body of POST /api/Promo/apply
+export const validateDiscountRequest = (body: Record<string, unknown>): ValidationResult<DiscountRequest> => {
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    return { error: 'Code is required' };
+  }
+
+  if (!Array.isArray(body.items)) {
+    return { error: 'Items must be an array' };
+  }
+  if (body.items.length > MAX_CART_LINES) {
+    return { error: `A cart can have at most ${MAX_CART_LINES} items` };
+  }
+
+  const items: CartLineInput[] = [];
+  for (const item of body.items) {
+    const { productId, variantId, quantity } = (item ?? {}) as Record<string, unknown>;
+    if (!isPositiveInteger(productId) || !isPositiveInteger(quantity)) {
+      return { error: 'Each item needs a productId and a positive integer quantity' };
+    }
+    if (quantity > MAX_LINE_QUANTITY) {
+      return { error: `Quantity must be ${MAX_LINE_QUANTITY} or less` };
+    }
+    if (variantId !== undefined && variantId !== null && !isPositiveInteger(variantId)) {
+      return { error: 'Variant ID must be a positive integer' };
+    }
+    items.push({ productId, quantity, variantId: (variantId as number | null) ?? undefined });
+  }
+
+  return { data: { code: body.code.trim(), items } };
+};
+
+export interface RedemptionRequest {
+  code: string;
+  orderId: number;
+}
+
+// Validate the body of POST /api/Promo/redeem; the order's own items are priced, not the cart's
+export const validateRedemptionRequest = (body: Record<string, unknown>): ValidationResult<RedemptionRequest> => {
+  if (typeof body.code !== 'string' || !body.code.trim()) {
+    return { error: 'Code is required' };
+  }
+  if (!isPositiveInteger(body.orderId)) {
+    return { error: 'Order ID is required' };
+  }
+
+  return { data: { code: body.code.trim(), orderId: body.orderId } };
+};
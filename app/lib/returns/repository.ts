@@ -0,0 +1,133 @@
+import { mutateStore, nextId, readStore, type ReturnItemRecord, type ReturnRecord } from '../db/store';
+import { getAvailableStock } from '../products/stock';
+import { getNextReturnStatus, RETURN_STATUS_LABELS, type ReturnStatus } from './status';
+
+export type Return = ReturnRecord;
+
+// A line the customer wants to send back as the order shows it, with the quantity they were sent
+export interface ReturnItemInput extends Omit<ReturnItemRecord, 'exchangeSize'> {
+  orderedQuantity: number;
+  // What one unit refunds: its price less its share of any order discount
+  unitRefund: number;
+}
+
+export interface ReturnInput extends Pick<Return, 'orderId' | 'reason' | 'comment' | 'resolution' | 'fromAddress'> {
+  items: ReturnItemInput[];
+}
+
+export interface ReturnFilter {
+  userId?: number;
+  orderId?: number;
+  status?: ReturnStatus;
+}
+
+// Thrown when the items asked for can't be returned, e.g. more than were ordered
+export class InvalidReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidReturnError';
+  }
+}
+
+// Thrown when a status change would skip a step or go backwards
+export class ReturnStatusError extends Error {
+  constructor(from: ReturnStatus, to: ReturnStatus) {
+    super(`A return that is ${RETURN_STATUS_LABELS[from].toLowerCase()} can't be marked ${RETURN_STATUS_LABELS[to].toLowerCase()}`);
+    this.name = 'ReturnStatusError';
+  }
+}
+
+export const formatRmaNumber = (id: number) => `RMA-${String(id).padStart(6, '0')}`;
+
+// Newest first
+export const listReturns = async (filter: ReturnFilter = {}): Promise<Return[]> => {
+  const data = await readStore();
+  return data.returns
+    .filter(r =>
+      (filter.userId === undefined || r.userId === filter.userId) &&
+      (filter.orderId === undefined || r.orderId === filter.orderId) &&
+      (filter.status === undefined || r.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id);
+};
+
+export const getReturn = async (id: number): Promise<Return | null> => {
+  const data = await readStore();
+  return data.returns.find(r => r.id === id) ?? null;
+};
+
+// Items already on another return for the same order count against what was ordered,
+// so an order line can't be returned twice
+export const createReturn = (userId: number, input: ReturnInput): Promise<Return> =>
+  mutateStore((data) => {
+    const previous = data.returns.filter(r => r.orderId === input.orderId);
+
+    let refundAmount = 0;
+    const items: ReturnItemRecord[] = input.items.map(({ orderedQuantity, unitRefund, ...item }) => {
+      const alreadyReturned = previous
+        .flatMap(r => r.items)
+        .filter(i => i.orderItemId === item.orderItemId)
+        .reduce((total, i) => total + i.quantity, 0);
+      if (item.quantity > orderedQuantity - alreadyReturned) {
+        throw new InvalidReturnError(
+          alreadyReturned > 0
+            ? `Only ${Math.max(orderedQuantity - alreadyReturned, 0)} of ${item.productName} can still be returned`
+            : `Only ${orderedQuantity} of ${item.productName} were ordered`
+        );
+      }
+
+      if (input.resolution !== 'exchange') {
+        refundAmount += unitRefund * item.quantity;
+        return { ...item, exchangeVariantId: undefined };
+      }
+
+      // Exchanges are for another size of the same product, in the same color
+      const product = data.products.find(p => p.id === item.productId);
+      const variant = product?.variants.find(v => v.id === item.exchangeVariantId);
+      if (
+        !product || !variant || variant.id === item.variantId ||
+        !variant.size || variant.size === item.size ||
+        (item.color !== undefined && variant.color !== item.color)
+      ) {
+        throw new InvalidReturnError(`Choose another size of ${item.productName} in the same color to exchange for`);
+      }
+      const available = getAvailableStock(product, variant.id);
+      if (available !== undefined && available < item.quantity) {
+        throw new InvalidReturnError(`${item.productName} in ${variant.size ?? variant.sku} is out of stock`);
+      }
+      return { ...item, exchangeSize: variant.size };
+    });
+
+    const now = new Date().toISOString();
+    const id = nextId(data, 'returns');
+    const created: Return = {
+      id,
+      rmaNumber: formatRmaNumber(id),
+      userId,
+      ...input,
+      items,
+      refundAmount: Math.round(refundAmount * 100) / 100,
+      status: 'requested',
+      history: [{ status: 'requested', changedAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.returns.push(created);
+    return created;
+  });
+
+// Returns null if there is no return with this id
+export const updateReturnStatus = (id: number, status: ReturnStatus): Promise<Return | null> =>
+  mutateStore((data) => {
+    const existing = data.returns.find(r => r.id === id);
+    if (!existing) return null;
+    if (getNextReturnStatus(existing.status) !== status) {
+      throw new ReturnStatusError(existing.status, status);
+    }
+
+    const now = new Date().toISOString();
+    existing.status = status;
+    existing.history.push({ status, changedAt: now });
+    existing.updatedAt = now;
+    return existing;
+  });
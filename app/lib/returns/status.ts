@@ -0,0 +1,48 @@
+// Return statuses, shared by the customer and admin screens and by the Returns API.
+// A return only ever moves forward, one step at a time, and only admins move it.
+
+export type ReturnStatus = 'requested' | 'approved' | 'received' | 'refunded';
+
+// What the customer wants back: their money, or the same product in another size
+export type ReturnResolution = 'refund' | 'exchange';
+
+export const RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'received', 'refunded'];
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  received: 'Received',
+  refunded: 'Refunded',
+};
+
+export const RETURN_STATUS_COLORS: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  received: 'bg-purple-100 text-purple-800',
+  refunded: 'bg-green-100 text-green-800',
+};
+
+// An exchange finishes when the replacement is sent rather than with a refund
+export const getReturnStatusLabel = (status: ReturnStatus, resolution: ReturnResolution) =>
+  status === 'refunded' && resolution === 'exchange' ? 'Exchanged' : RETURN_STATUS_LABELS[status];
+
+// The status a return moves to next, or null once it is complete
+export const getNextReturnStatus = (status: ReturnStatus): ReturnStatus | null =>
+  RETURN_STATUSES[RETURN_STATUSES.indexOf(status) + 1] ?? null;
+
+// Button text for moving a return on to `status`
+export const getReturnActionLabel = (status: ReturnStatus, resolution: ReturnResolution) => {
+  switch (status) {
+    case 'approved':
+      return 'Approve';
+    case 'received':
+      return 'Mark as Received';
+    case 'refunded':
+      return resolution === 'exchange' ? 'Mark as Exchanged' : 'Mark as Refunded';
+    default:
+      return RETURN_STATUS_LABELS[status];
+  }
+};
+
+export const isReturnStatus = (value: unknown): value is ReturnStatus =>
+  RETURN_STATUSES.includes(value as ReturnStatus);
@@ -0,0 +1,134 @@
+import { hasErrors, normalizeShippingAddress, validateShippingAddress, type ShippingAddress } from '../checkout/address';
+import type { ReturnInput, ReturnItemInput } from './repository';
+import { isReturnStatus, RETURN_STATUSES, type ReturnStatus } from './status';
+
+type ValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+const MAX_REASON_LENGTH = 200;
+const MAX_COMMENT_LENGTH = 1000;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// A line as the customer asks for it. The rest is copied from the order when the return is created.
+export type ReturnRequestItem = Pick<ReturnItemInput, 'orderItemId' | 'quantity' | 'exchangeVariantId'>;
+
+export interface ReturnRequest extends Omit<ReturnInput, 'items'> {
+  items: ReturnRequestItem[];
+}
+
+const validateItem = (value: unknown): ValidationResult<ReturnRequestItem> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'Each item must be an object' };
+  }
+  const item = value as Record<string, unknown>;
+
+  if (!isPositiveInteger(item.orderItemId)) {
+    return { error: 'Each item needs an order item ID' };
+  }
+  if (item.exchangeVariantId !== undefined && item.exchangeVariantId !== null && !isPositiveInteger(item.exchangeVariantId)) {
+    return { error: 'exchangeVariantId must be a positive integer' };
+  }
+  if (!isPositiveInteger(item.quantity)) {
+    return { error: 'Quantity must be a positive integer' };
+  }
+
+  return {
+    data: {
+      orderItemId: item.orderItemId,
+      quantity: item.quantity,
+      exchangeVariantId: (item.exchangeVariantId as number | null) ?? undefined,
+    },
+  };
+};
+
+const validateFromAddress = (value: unknown): ValidationResult<ShippingAddress | undefined> => {
+  if (value === undefined || value === null) return { data: undefined };
+
+  const address = value as Record<string, unknown>;
+  const required = ['fullName', 'line1', 'city', 'postalCode', 'country'] as const;
+  if (
+    typeof value !== 'object' || Array.isArray(value) ||
+    required.some(key => typeof address[key] !== 'string') ||
+    !isOptionalString(address.line2) || !isOptionalString(address.state)
+  ) {
+    return { error: 'From address must be an address object' };
+  }
+
+  const normalized = normalizeShippingAddress({
+    ...(address as unknown as ShippingAddress),
+    line2: (address.line2 as string | null) ?? undefined,
+    state: (address.state as string | null) ?? undefined,
+  });
+  if (hasErrors(validateShippingAddress(normalized))) {
+    return { error: 'From address is incomplete' };
+  }
+  return { data: normalized };
+};
+
+// Validate the body of POST /api/Returns. Items are checked against the order, quantities
+// against earlier returns for it, and exchange sizes against the catalog, when the return is created.
+export const validateReturnInput = (body: Record<string, unknown>): ValidationResult<ReturnRequest> => {
+  if (!isPositiveInteger(body.orderId)) {
+    return { error: 'Order ID is required' };
+  }
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return { error: 'Choose at least one item to return' };
+  }
+  const items: ReturnRequestItem[] = [];
+  for (const value of body.items) {
+    const { data, error } = validateItem(value);
+    if (error !== undefined) return { error };
+    if (items.some(item => item.orderItemId === data.orderItemId)) {
+      return { error: 'Each order item can only be listed once' };
+    }
+    items.push(data);
+  }
+
+  if (body.resolution !== 'refund' && body.resolution !== 'exchange') {
+    return { error: 'Resolution must be refund or exchange' };
+  }
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (!reason) {
+    return { error: 'A reason is required' };
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    return { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` };
+  }
+
+  if (!isOptionalString(body.comment)) {
+    return { error: 'Comment must be a string' };
+  }
+  const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comment must be ${MAX_COMMENT_LENGTH} characters or less` };
+  }
+
+  const fromAddress = validateFromAddress(body.fromAddress);
+  if (fromAddress.error !== undefined) return { error: fromAddress.error };
+
+  return {
+    data: {
+      orderId: body.orderId,
+      items,
+      resolution: body.resolution,
+      reason,
+      comment: comment || undefined,
+      fromAddress: fromAddress.data,
+    },
+  };
+};
+
+// Validate the body of PATCH /api/Returns/{id}
+export const validateReturnStatusInput = (body: Record<string, unknown>): ValidationResult<ReturnStatus> => {
+  if (!isReturnStatus(body.status)) {
+    return { error: `Status must be one of ${RETURN_STATUSES.join(', ')}` };
+  }
+  return { data: body.status };
+};
@@ -0,0 +1,55 @@
+import { mutateStore, nextId, readStore, type SavedItemRecord } from '../db/store';
+
+export type SavedItem = SavedItemRecord;
+
+export type SavedItemInput = Pick<SavedItem, 'productId' | 'variantId' | 'quantity'>;
+
+// Thrown when the product or variant being saved doesn't exist
+export class InvalidSavedItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSavedItemError';
+  }
+}
+
+export const listSavedItems = async (userId: number): Promise<SavedItem[]> => {
+  const data = await readStore();
+  return data.savedItems.filter(item => item.userId === userId);
+};
+
+// Saving an item that is already on the list keeps the larger of the two quantities.
+// Returns the user's updated list.
+export const saveItem = (userId: number, input: SavedItemInput): Promise<SavedItem[]> =>
+  mutateStore((data) => {
+    const product = data.products.find(p => p.id === input.productId);
+    if (!product) throw new InvalidSavedItemError(`Product ${input.productId} does not exist`);
+    if (input.variantId !== undefined && !product.variants.some(v => v.id === input.variantId)) {
+      throw new InvalidSavedItemError(`Variant ${input.variantId} does not exist`);
+    }
+
+    const existing = data.savedItems.find(item =>
+      item.userId === userId && item.productId === input.productId && item.variantId === input.variantId
+    );
+    if (existing) {
+      existing.quantity = Math.max(existing.quantity, input.quantity);
+    } else {
+      data.savedItems.push({
+        id: nextId(data, 'savedItems'),
+        userId,
+        ...input,
+        savedAt: new Date().toISOString(),
+      });
+    }
+
+    return data.savedItems.filter(item => item.userId === userId);
+  });
+
+// Returns the user's updated list, or null if they have no saved item with this id
+export const removeSavedItem = (userId: number, id: number): Promise<SavedItem[] | null> =>
+  mutateStore((data) => {
+    const index = data.savedItems.findIndex(item => item.id === id && item.userId === userId);
+    if (index === -1) return null;
+
+    data.savedItems.splice(index, 1);
+    return data.savedItems.filter(item => item.userId === userId);
+  });
@@ -0,0 +1,25 @@
+import type { SavedItemInput } from './repository';
+
+type ValidationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string };
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Validate the body of POST /api/SavedItems; quantity defaults to 1
+export const validateSavedItemInput = (body: Record<string, unknown>): ValidationResult<SavedItemInput> => {
+  const { productId, variantId, quantity = 1 } = body;
+
+  if (!isPositiveInteger(productId)) {
+    return { error: 'Product ID is required' };
+  }
+  if (variantId !== undefined && variantId !== null && !isPositiveInteger(variantId)) {
+    return { error: 'Variant ID must be a positive integer' };
+  }
+  if (!isPositiveInteger(quantity)) {
+    return { error: 'Quantity must be a positive integer' };
+  }
+
+  return { data: { productId, quantity, variantId: (variantId as number | null) ?? undefined } };
+};
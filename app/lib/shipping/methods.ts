@@ -0,0 +1,63 @@
+import { expressRate, flatRate, freeOverThreshold, weightBasedRate, type RateProvider, type Shipment } from './rates';
+
+// Delivery options offered at checkout, each priced by a rate provider. The chosen id
+// and its cost are sent with the order placement.
+
+export interface ShippingMethod {
+  id: string;
+  name: string;
+  // Shown under the name, e.g. the delivery window
+  description: string;
+  rate: RateProvider;
+  // Whether a free-shipping promo code makes this method free; upgrades are still charged
+  promoEligible: boolean;
+}
+
+export interface ShippingQuote {
+  method: ShippingMethod;
+  cost: number;
+}
+
+export const FREE_SHIPPING_THRESHOLD = 75;
+
+const trackedRate = weightBasedRate({ base: 4.5, perKg: 1.5 });
+
+export const SHIPPING_METHODS: ShippingMethod[] = [
+  {
+    id: 'standard',
+    name: 'Standard shipping',
+    description: `Delivered in 5–7 business days, free over $${FREE_SHIPPING_THRESHOLD}`,
+    rate: freeOverThreshold(FREE_SHIPPING_THRESHOLD, flatRate(5.99)),
+    promoEligible: true,
+  },
+  {
+    id: 'tracked',
+    name: 'Tracked shipping',
+    description: 'Delivered in 3–5 business days, priced by weight',
+    rate: trackedRate,
+    promoEligible: true,
+  },
+  {
+    id: 'express',
+    name: 'Express',
+    description: 'Delivered in 1–2 business days, US only',
+    rate: expressRate(trackedRate, { surcharge: 12, countries: ['US'] }),
+    promoEligible: false,
+  },
+];
+
+export const DEFAULT_SHIPPING_METHOD = SHIPPING_METHODS[0].id;
+
+export const getShippingMethod = (id: string | undefined) =>
+  SHIPPING_METHODS.find(method => method.id === id);
+
+// Price every method that can deliver the shipment
+export const quoteShippingMethods = (
+  shipment: Shipment,
+  { freeShipping = false }: { freeShipping?: boolean } = {}
+): ShippingQuote[] =>
+  SHIPPING_METHODS.flatMap((method) => {
+    const cost = method.rate(shipment);
+    if (cost === null) return [];
+    return [{ method, cost: freeShipping && method.promoEligible ? 0 : cost }];
+  });
@@ -0,0 +1,56 @@
+// Shipping rate providers. A provider prices a shipment for one delivery method, or
+// returns null when that method can't deliver it. Providers compose: the free-over-threshold
+// and express providers wrap another provider rather than pricing the shipment themselves.
+
+export interface ShipmentLine {
+  quantity: number;
+  // What the customer pays per unit, after any sale
+  unitPrice: number;
+  // Kilograms per unit, when the product has one
+  weight?: number;
+}
+
+export interface Shipment {
+  lines: ShipmentLine[];
+  // Merchandise total after discounts, which free-shipping thresholds are checked against
+  subtotal: number;
+  // ISO country code of the delivery address
+  country: string;
+}
+
+export type RateProvider = (shipment: Shipment) => number | null;
+
+// Assumed for products without a shipping weight; roughly a folded garment in a mailer
+export const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const getShipmentWeight = (shipment: Shipment) =>
+  shipment.lines.reduce((total, line) => total + (line.weight ?? DEFAULT_ITEM_WEIGHT_KG) * line.quantity, 0);
+
+// The same price for every shipment
+export const flatRate = (amount: number): RateProvider =>
+  () => amount;
+
+// A base price plus a charge for every started kilogram
+export const weightBasedRate = ({ base, perKg }: { base: number; perKg: number }): RateProvider =>
+  (shipment) => roundCents(base + perKg * Math.ceil(getShipmentWeight(shipment)));
+
+// Free once the subtotal reaches the threshold, otherwise whatever `provider` charges
+export const freeOverThreshold = (threshold: number, provider: RateProvider): RateProvider =>
+  (shipment) => {
+    const cost = provider(shipment);
+    if (cost === null) return null;
+    return shipment.subtotal >= threshold ? 0 : cost;
+  };
+
+// `provider` plus a surcharge, offered only to the listed countries
+export const expressRate = (
+  provider: RateProvider,
+  { surcharge, countries }: { surcharge: number; countries: string[] }
+): RateProvider =>
+  (shipment) => {
+    if (!countries.includes(shipment.country)) return null;
+    const cost = provider(shipment);
+    return cost === null ? null : roundCents(cost + surcharge);
+  };
@@ -0,0 +1,87 @@
+import { DEFAULT_TAX_DESTINATION, getTaxRate } from './rates';
+
+// Tax engine shared by the cart, checkout and order history so all three show the same
+// numbers. Tax is worked out per line, after the line's share of any order discount, and
+// rounded to the cent per line so the lines always add up to the total.
+
+export interface TaxDestination {
+  country: string;
+  state?: string;
+}
+
+export interface TaxableLine {
+  productId: number;
+  variantId?: number;
+  // What the customer pays for the whole line, before any order discount
+  amount: number;
+}
+
+export interface LineTax {
+  productId: number;
+  variantId?: number;
+  tax: number;
+}
+
+export interface TaxBreakdown {
+  name: string;
+  rate: number;
+  // True when the tax is already inside the prices, so nothing is added to the total
+  inclusive: boolean;
+  lines: LineTax[];
+  shippingTax: number;
+  totalTax: number;
+  // What the tax adds to the amount charged: the total tax, or 0 when prices include it
+  addedTax: number;
+  // Set when no address was given and the default destination was used
+  estimated: boolean;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const taxOn = (amount: number, rate: number, inclusive: boolean) =>
+  roundCents(inclusive ? amount - amount / (1 + rate) : amount * rate);
+
+export const calculateTax = ({
+  lines,
+  discount = 0,
+  shipping = 0,
+  destination,
+}: {
+  lines: TaxableLine[];
+  discount?: number;
+  shipping?: number;
+  destination?: TaxDestination;
+}): TaxBreakdown => {
+  const { country, state } = destination ?? DEFAULT_TAX_DESTINATION;
+  const { name, rate, pricesIncludeTax, shippingTaxable } = getTaxRate(country, state);
+
+  // Spread the order discount over the lines in proportion to their amounts
+  const subtotal = lines.reduce((total, line) => total + line.amount, 0);
+  const discountShare = subtotal > 0 ? Math.min(discount, subtotal) / subtotal : 0;
+
+  const lineTaxes = lines.map(line => ({
+    productId: line.productId,
+    variantId: line.variantId,
+    tax: taxOn(line.amount * (1 - discountShare), rate, pricesIncludeTax),
+  }));
+  const shippingTax = shippingTaxable ? taxOn(shipping, rate, pricesIncludeTax) : 0;
+  const totalTax = roundCents(lineTaxes.reduce((total, line) => total + line.tax, 0) + shippingTax);
+
+  return {
+    name,
+    rate,
+    inclusive: pricesIncludeTax,
+    lines: lineTaxes,
+    shippingTax,
+    totalTax,
+    addedTax: pricesIncludeTax ? 0 : totalTax,
+    estimated: destination === undefined,
+  };
+};
+
+export const getLineTax = (breakdown: Pick<TaxBreakdown, 'lines'>, productId: number, variantId?: number) =>
+  breakdown.lines.find(line => line.productId === productId && line.variantId === variantId)?.tax ?? 0;
+
+// e.g. "VAT 20%" or "Sales tax 7.25%"
+export const formatTaxLabel = (breakdown: Pick<TaxBreakdown, 'name' | 'rate'>) =>
+  `${breakdown.name} ${parseFloat((breakdown.rate * 100).toFixed(3))}%`;
@@ -0,0 +1,74 @@
+// Tax rates by destination. Countries where shelf prices conventionally include tax
+// (VAT, GST) are marked `pricesIncludeTax`; there the tax is taken out of the price
+// rather than added on top. A region entry overrides its country's default.
+
+export interface TaxRate {
+  // Shown to shoppers, e.g. "VAT" or "Sales tax"
+  name: string;
+  // Fraction, e.g. 0.2 for 20%
+  rate: number;
+  pricesIncludeTax: boolean;
+  shippingTaxable: boolean;
+}
+
+interface CountryTaxConfig extends TaxRate {
+  // Keyed by state or province code; `taxName` replaces the country's name for the tax
+  regions?: Record<string, { name: string; rate: number; taxName?: string; shippingTaxable?: boolean }>;
+}
+
+export const TAX_RATES: Record<string, CountryTaxConfig> = {
+  US: {
+    name: 'Sales tax',
+    rate: 0,
+    pricesIncludeTax: false,
+    shippingTaxable: false,
+    regions: {
+      CA: { name: 'California', rate: 0.0725 },
+      FL: { name: 'Florida', rate: 0.06 },
+      NY: { name: 'New York', rate: 0.04, shippingTaxable: true },
+      TX: { name: 'Texas', rate: 0.0625, shippingTaxable: true },
+      WA: { name: 'Washington', rate: 0.065, shippingTaxable: true },
+    },
+  },
+  CA: {
+    name: 'GST',
+    rate: 0.05,
+    pricesIncludeTax: false,
+    shippingTaxable: true,
+    regions: {
+      BC: { name: 'British Columbia', rate: 0.12, taxName: 'GST + PST' },
+      ON: { name: 'Ontario', rate: 0.13, taxName: 'HST' },
+      QC: { name: 'Quebec', rate: 0.14975, taxName: 'GST + QST' },
+    },
+  },
+  GB: { name: 'VAT', rate: 0.2, pricesIncludeTax: true, shippingTaxable: true },
+  DE: { name: 'VAT', rate: 0.19, pricesIncludeTax: true, shippingTaxable: true },
+  FR: { name: 'VAT', rate: 0.2, pricesIncludeTax: true, shippingTaxable: true },
+  AU: { name: 'GST', rate: 0.1, pricesIncludeTax: true, shippingTaxable: true },
+};
+
+// Used for estimates before the shopper has given an address: the store's home state
+export const DEFAULT_TAX_DESTINATION = { country: 'US', state: 'CA' };
+
+// The rate for a destination; the state may be given as a code ("CA") or a name ("California")
+export const getTaxRate = (country: string, state?: string): TaxRate => {
+  const config = TAX_RATES[country];
+  if (!config) {
+    return { name: 'Tax', rate: 0, pricesIncludeTax: false, shippingTaxable: false };
+  }
+
+  const { regions, ...countryRate } = config;
+  const wanted = state?.trim().toUpperCase();
+  const region = wanted
+    ? Object.entries(regions ?? {}).find(([code, r]) => code === wanted || r.name.toUpperCase() === wanted)?.[1]
+    : undefined;
+
+  return region
+    ? {
+        ...countryRate,
+        name: region.taxName ?? countryRate.name,
+        rate: region.rate,
+        shippingTaxable: region.shippingTaxable ?? countryRate.shippingTaxable,
+      }
+    : countryRate;
+};
@@ -0,0 +1,57 @@
+// Guests' wishlists live in localStorage, in the same shape GET /api/Wishlist returns,
+// and are copied to their account when they sign in.
+
+export interface WishlistItem {
+  id: number;
+  productId: number;
+  addedAt: string;
+}
+
+export const GUEST_WISHLIST_KEY = 'guest_wishlist';
+
+export const loadGuestWishlist = (): WishlistItem[] => {
+  const stored = localStorage.getItem(GUEST_WISHLIST_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(GUEST_WISHLIST_KEY);
+    return [];
+  }
+};
+
+export const saveGuestWishlist = (items: WishlistItem[]) => {
+  if (items.length === 0) {
+    localStorage.removeItem(GUEST_WISHLIST_KEY);
+  } else {
+    localStorage.setItem(GUEST_WISHLIST_KEY, JSON.stringify(items));
+  }
+};
+
+// Add a guest's wishlist to their account; anything that fails to copy stays local
+export const mergeGuestWishlist = async (token: string): Promise<void> => {
+  const items = loadGuestWishlist();
+  if (items.length === 0) return;
+
+  const unsynced: WishlistItem[] = [];
+  for (const item of items) {
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Wishlist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ productId: item.productId }),
+      });
+      // A product deleted since it was added can't be copied; let it go
+      if (!response.ok && response.status !== 400) unsynced.push(item);
+    } catch (error) {
+      console.error('Error merging wishlist:', error);
+      unsynced.push(item);
+    }
+  }
+
+  saveGuestWishlist(unsynced);
+};
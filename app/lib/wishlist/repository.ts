@@ -0,0 +1,45 @@
+import { mutateStore, nextId, readStore, type WishlistItemRecord } from '../db/store';
+
+export type WishlistItem = WishlistItemRecord;
+
+// Thrown when the product being added doesn't exist
+export class InvalidWishlistItemError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWishlistItemError';
+  }
+}
+
+export const listWishlist = async (userId: number): Promise<WishlistItem[]> => {
+  const data = await readStore();
+  return data.wishlistItems.filter(item => item.userId === userId);
+};
+
+// Adding a product that is already on the wishlist is a no-op. Returns the user's updated list.
+export const addToWishlist = (userId: number, productId: number): Promise<WishlistItem[]> =>
+  mutateStore((data) => {
+    if (!data.products.some(p => p.id === productId)) {
+      throw new InvalidWishlistItemError(`Product ${productId} does not exist`);
+    }
+
+    if (!data.wishlistItems.some(item => item.userId === userId && item.productId === productId)) {
+      data.wishlistItems.push({
+        id: nextId(data, 'wishlistItems'),
+        userId,
+        productId,
+        addedAt: new Date().toISOString(),
+      });
+    }
+
+    return data.wishlistItems.filter(item => item.userId === userId);
+  });
+
+// Returns the user's updated list, or null if the product was not on it
+export const removeFromWishlist = (userId: number, productId: number): Promise<WishlistItem[] | null> =>
+  mutateStore((data) => {
+    const index = data.wishlistItems.findIndex(item => item.userId === userId && item.productId === productId);
+    if (index === -1) return null;
+
+    data.wishlistItems.splice(index, 1);
+    return data.wishlistItems.filter(item => item.userId === userId);
+  });
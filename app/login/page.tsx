@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
 import Toast from '../components/UI/Toast';
+import { getRedirectPath } from '../lib/auth/redirect';
 
 export default function LoginPage() {
   const [formData, setFormData] = useState({
@@ -34,7 +35,7 @@ export default function LoginPage() {
       if (result.success) {
         showToast('Login successful!', 'success');
         setTimeout(() => {
-          router.push('/');
+          router.push(getRedirectPath(window.location.search));
         }, 1000);
       } else {
         showToast(result.error || 'Invalid email or password. Please try again.', 'error');
@@ -0,0 +1,466 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import Header from '../../components/Header/Header';
+import Toast from '../../components/UI/Toast';
+import LineTax from '../../components/Tax/LineTax';
+import TaxSummary from '../../components/Tax/TaxSummary';
+import ReturnStatusBadge from '../../components/Returns/ReturnStatusBadge';
+import { formatAddressLines, type ContactInfo, type ShippingAddress } from '../../lib/checkout/address';
+import { getShippingMethod } from '../../lib/shipping/methods';
+import { getLineTax, type TaxBreakdown } from '../../lib/tax/calculate';
+import { getAvailableStock } from '../../lib/products/stock';
+import type { ReturnRecord } from '../../lib/db/store';
+import { ORDER_STATUS_COLORS, OrderStatus, parseOrderStatus } from '../../lib/orders/status';
+
+interface OrderItem {
+  id: number;
+  productId: number;
+  variantId?: number;
+  size?: string;
+  color?: string;
+  productName: string;
+  productDescription: string;
+  productImage?: string;
+  quantity: number;
+  price: number;
+  createdAt: string;
+}
+
+interface Order {
+  id: number;
+  userId: number;
+  totalAmount: number;
+  status: string | number;
+  items: OrderItem[];
+  createdAt: string;
+  updatedAt: string;
+  stripePaymentIntentId?: string;
+  contact?: ContactInfo;
+  shippingAddress?: ShippingAddress;
+  shippingMethod?: string;
+  shippingCost?: number;
+  tax?: TaxBreakdown;
+}
+
+// One entry of GET /api/OrderAudit/{orderId}
+interface StatusEvent {
+  id: number;
+  from: OrderStatus;
+  to: OrderStatus;
+  reason?: string;
+  actorRole: string;
+  changedAt: string;
+}
+
+interface TimelineEntry {
+  key: string;
+  label: string;
+  at: string;
+  detail?: string;
+}
+
+// Product pages open from the catalog, which takes a `?product=` deep link
+const getProductHref = (productId: number) => `/products?product=${productId}`;
+
+// A single order with everything support needs when a customer asks about it.
+// The URL is stable, so it can be pasted into a ticket or an email.
+export default function OrderDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const orderId = parseInt(id);
+  const [order, setOrder] = useState<Order | null>(null);
+  const [events, setEvents] = useState<StatusEvent[]>([]);
+  const [returns, setReturns] = useState<ReturnRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+
+  const { isAuthenticated, token, isLoading: authLoading } = useAuth();
+  const { cart, addToCart } = useCart();
+  const router = useRouter();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  // Come back to this order after signing in
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(`/login?redirect=${encodeURIComponent(`/orders/${id}`)}`);
+    }
+  }, [isAuthenticated, authLoading, router, id]);
+
+  const fetchOrder = useCallback(async () => {
+    if (!token) return;
+    if (isNaN(orderId)) {
+      setNotFound(true);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [orderResponse, eventsResponse, returnsResponse] = await Promise.all([
+        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}`, { headers }),
+        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/OrderAudit/${orderId}`, { headers }),
+        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns?orderId=${orderId}`, { headers }),
+      ]);
+
+      if (orderResponse.ok) {
+        setOrder(await orderResponse.json());
+      } else {
+        setNotFound(true);
+      }
+
+      if (eventsResponse.ok) {
+        setEvents(await eventsResponse.json());
+      }
+      if (returnsResponse.ok) {
+        setReturns(await returnsResponse.json());
+      }
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      setNotFound(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId, token]);
+
+  useEffect(() => {
+    if (isAuthenticated) fetchOrder();
+  }, [isAuthenticated, fetchOrder]);
+
+  // Put every line back in the cart at its original quantity, or as much as is left in stock
+  const handleBuyAgain = async () => {
+    if (!order) return;
+
+    setIsReordering(true);
+    const unavailable: string[] = [];
+    for (const item of order.items) {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${item.productId}`);
+        if (!response.ok) {
+          unavailable.push(item.productName);
+          continue;
+        }
+
+        const available = getAvailableStock(await response.json(), item.variantId);
+        const inCart = cart?.items
+          .filter(line => line.productId === item.productId && line.variantId === item.variantId)
+          .reduce((total, line) => total + line.quantity, 0) ?? 0;
+        const quantity = Math.min(item.quantity, (available ?? Infinity) - inCart);
+
+        if (quantity <= 0 || !(await addToCart({ productId: item.productId, variantId: item.variantId }, quantity))) {
+          unavailable.push(item.productName);
+        }
+      } catch (error) {
+        console.error('Error re-adding order item:', error);
+        unavailable.push(item.productName);
+      }
+    }
+    setIsReordering(false);
+
+    if (unavailable.length === 0) {
+      router.push('/cart');
+    } else if (unavailable.length === order.items.length) {
+      showToast('None of these items are available right now', 'error');
+    } else {
+      showToast(`Added to cart, except: ${unavailable.join(', ')}`, 'error');
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (authLoading || !isAuthenticated || isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading order...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  if (notFound || !order) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center px-4">
+          <div className="bg-white rounded-lg shadow-md p-8 text-center max-w-md w-full">
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Order not found</h1>
+            <p className="text-sm text-gray-600 mb-6">
+              This order doesn&apos;t exist or belongs to another account.
+            </p>
+            <Link
+              href="/orders"
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 inline-block"
+            >
+              Back to My Orders
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const status = parseOrderStatus(order.status);
+  const subtotal = order.items.reduce((total, item) => total + item.price * item.quantity, 0);
+
+  // Orders placed before status changes were recorded only know their current status
+  const timeline: TimelineEntry[] = [
+    { key: 'placed', label: 'Order placed', at: order.createdAt },
+    ...events.map(event => ({
+      key: `event-${event.id}`,
+      label: event.to,
+      at: event.changedAt,
+      detail: [event.actorRole === 'system' ? 'Automatic' : `By ${event.actorRole}`, event.reason]
+        .filter(Boolean)
+        .join(' · '),
+    })),
+  ];
+  if (status && status !== OrderStatus.Pending && events[events.length - 1]?.to !== status) {
+    timeline.push({ key: 'current', label: status, at: order.updatedAt });
+  }
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Link href="/orders" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to My Orders
+          </Link>
+
+          <div className="mt-4 mb-8 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Order #{order.id}</h1>
+              <p className="text-gray-600">Placed on {formatDate(order.createdAt)}</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                status ? ORDER_STATUS_COLORS[status] : 'bg-gray-100 text-gray-800'
+              }`}>
+                {status ?? 'Unknown'}
+              </span>
+              {status === OrderStatus.Pending && (
+                <button
+                  onClick={() => router.push(`/checkout?orderId=${order.id}`)}
+                  className="text-sm bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700"
+                >
+                  Complete Payment
+                </button>
+              )}
+              {status === OrderStatus.Delivered && (
+                <Link
+                  href={`/returns/new?orderId=${order.id}`}
+                  className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded-md hover:bg-gray-200"
+                >
+                  Return Items
+                </Link>
+              )}
+              <button
+                onClick={handleBuyAgain}
+                disabled={isReordering}
+                className="text-sm bg-green-600 text-white px-3 py-1 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {isReordering ? 'Adding...' : 'Buy again'}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Items */}
+              <div className="bg-white rounded-lg shadow-md">
+                <div className="p-6 border-b border-gray-200">
+                  <h2 className="text-xl font-semibold">
+                    Items ({order.items.length})
+                  </h2>
+                </div>
+                <div className="divide-y divide-gray-200">
+                  {order.items.map((item) => (
+                    <div key={item.id} className="p-6 flex items-start space-x-4">
+                      {item.productImage && (
+                        <Link href={getProductHref(item.productId)} className="relative w-20 h-20 flex-shrink-0">
+                          <Image
+                            src={item.productImage}
+                            alt={item.productName}
+                            fill
+                            className="object-cover rounded-md"
+                          />
+                        </Link>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <Link
+                          href={getProductHref(item.productId)}
+                          className="font-medium text-gray-900 hover:text-blue-600"
+                        >
+                          {item.productName}
+                        </Link>
+                        {(item.size || item.color) && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            {[item.size && `Size: ${item.size}`, item.color && `Color: ${item.color}`].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                        <p className="text-sm text-gray-600 mt-1">
+                          {item.quantity} × {formatPrice(item.price)}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium text-gray-900">
+                          {formatPrice(item.price * item.quantity)}
+                        </p>
+                        {order.tax && (
+                          <LineTax
+                            tax={getLineTax(order.tax, item.productId, item.variantId)}
+                            name={order.tax.name}
+                            inclusive={order.tax.inclusive}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="p-6 border-t border-gray-200 space-y-2 text-sm sm:ml-auto sm:w-80">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Subtotal</span>
+                    <span>{formatPrice(subtotal)}</span>
+                  </div>
+                  {order.shippingCost !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Shipping</span>
+                      <span>{order.shippingCost === 0 ? 'Free' : formatPrice(order.shippingCost)}</span>
+                    </div>
+                  )}
+                  {order.tax && <TaxSummary breakdown={order.tax} />}
+                  <div className="flex justify-between pt-2 border-t border-gray-200 text-base font-semibold">
+                    <span>Total</span>
+                    <span>{formatPrice(order.totalAmount)}</span>
+                  </div>
+                </div>
+              </div>
+
+              {/* Returns */}
+              {returns.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <h2 className="text-xl font-semibold mb-4">Returns</h2>
+                  <ul className="divide-y divide-gray-100 text-sm">
+                    {returns.map((productReturn) => (
+                      <li key={productReturn.id} className="py-3 flex items-center justify-between gap-4">
+                        <div>
+                          <Link href={`/returns/${productReturn.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                            {productReturn.rmaNumber}
+                          </Link>
+                          <p className="text-gray-600">
+                            {productReturn.items.map(item => `${item.quantity} × ${item.productName}`).join(', ')}
+                          </p>
+                        </div>
+                        <ReturnStatusBadge status={productReturn.status} resolution={productReturn.resolution} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Timeline */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold mb-4">Status history</h2>
+                <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+                  {timeline.map((entry) => (
+                    <li key={entry.key} className="ml-4">
+                      <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-600"></span>
+                      <p className="font-medium text-gray-900">{entry.label}</p>
+                      <time className="text-sm text-gray-500">{formatDate(entry.at)}</time>
+                      {entry.detail && (
+                        <p className="text-sm text-gray-600 mt-1">{entry.detail}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              {/* Delivery */}
+              <div className="bg-white rounded-lg shadow-md p-6 text-sm">
+                <h2 className="text-lg font-semibold mb-3">Delivery</h2>
+                {order.shippingAddress ? (
+                  <div className="text-gray-600 space-y-0.5">
+                    {formatAddressLines(order.shippingAddress).map((line) => (
+                      <p key={line}>{line}</p>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">No shipping address on this order</p>
+                )}
+                {order.shippingMethod && (
+                  <p className="mt-3 text-gray-600">
+                    {getShippingMethod(order.shippingMethod)?.name ?? order.shippingMethod}
+                  </p>
+                )}
+                {order.contact && (
+                  <div className="mt-3 pt-3 border-t border-gray-100 text-gray-600">
+                    <p>{order.contact.email}</p>
+                    {order.contact.phone && <p>{order.contact.phone}</p>}
+                  </div>
+                )}
+              </div>
+
+              {/* Payment */}
+              <div className="bg-white rounded-lg shadow-md p-6 text-sm">
+                <h2 className="text-lg font-semibold mb-3">Payment</h2>
+                <div className="flex justify-between text-gray-600">
+                  <span>{status === OrderStatus.Pending ? 'Amount due' : 'Amount'}</span>
+                  <span className="font-medium text-gray-900">{formatPrice(order.totalAmount)}</span>
+                </div>
+                <div className="mt-2">
+                  <p className="text-gray-600">Payment reference</p>
+                  <p className="font-mono text-xs text-gray-900 break-all">
+                    {order.stripePaymentIntentId ?? 'Not yet created'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
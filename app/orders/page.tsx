@@ -2,13 +2,33 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
 import Header from '../components/Header/Header';
 import Toast from '../components/UI/Toast';
+import LineTax from '../components/Tax/LineTax';
+import TaxSummary from '../components/Tax/TaxSummary';
+import CancelReasonForm from '../components/Orders/CancelReasonForm';
+import ReturnStatusBadge from '../components/Returns/ReturnStatusBadge';
+import { formatAddressLines, type ContactInfo, type ShippingAddress } from '../lib/checkout/address';
+import { getShippingMethod } from '../lib/shipping/methods';
+import { getLineTax, type TaxBreakdown } from '../lib/tax/calculate';
+import type { ReturnRecord } from '../lib/db/store';
+import { changeOrderStatus } from '../lib/orders/changeStatus';
+import {
+  ORDER_STATUS_COLORS,
+  OrderStatus,
+  getAllowedTransitions,
+  parseOrderStatus,
+  type OrderTransition,
+} from '../lib/orders/status';
 
 interface OrderItem {
   id: number;
   productId: number;
+  variantId?: number;
+  size?: string;
+  color?: string;
   productName: string;
   productDescription: string;
   productImage?: string;
@@ -27,14 +47,30 @@ interface Order {
   updatedAt: string;
   stripePaymentIntentId?: string;
   stripeClientSecret?: string;
+  contact?: ContactInfo;
+  shippingAddress?: ShippingAddress;
+  shippingMethod?: string;
+  shippingCost?: number;
+  tax?: TaxBreakdown;
 }
 
+const CANCEL_REASONS = [
+  'Changed my mind',
+  'Ordered by mistake',
+  'Found a better price',
+  'Delivery takes too long',
+];
+
 export default function OrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+  // The order whose cancellation reason is being asked for
+  const [cancellingOrderId, setCancellingOrderId] = useState<number | null>(null);
+  const [updatingOrderId, setUpdatingOrderId] = useState<number | null>(null);
+  const [returns, setReturns] = useState<ReturnRecord[]>([]);
   
-  const { isAuthenticated, token, isLoading: authLoading } = useAuth();
+  const { user, isAuthenticated, token, isLoading: authLoading } = useAuth();
   const router = useRouter();
 
   const showToast = (message: string, type: 'success' | 'error') => {
@@ -70,6 +106,7 @@ export default function OrdersPage() {
       if (response.ok) {
         const data = await response.json();
         setOrders(data);
+        fetchReturns();
       } else {
         showToast('Failed to fetch orders', 'error');
       }
@@ -81,21 +118,34 @@ export default function OrdersPage() {
     }
   };
 
-  const updateOrderStatus = async (orderId: number, newStatus: string) => {
+  const fetchReturns = async () => {
     if (!token) return;
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}/status`, {
-        method: 'PATCH',
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns`, {
         headers: {
-          'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify(newStatus),
       });
 
       if (response.ok) {
-        showToast(`Order status updated to ${newStatus}`, 'success');
+        setReturns(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+    }
+  };
+
+  const updateOrderStatus = async (order: Order, transition: OrderTransition, reason?: string) => {
+    const from = parseOrderStatus(order.status);
+    if (!token || from === null) return;
+
+    setUpdatingOrderId(order.id);
+    try {
+      const updated = await changeOrderStatus({ orderId: order.id, from, to: transition.to, token, reason });
+      if (updated) {
+        showToast(`Order status updated to ${transition.to}`, 'success');
+        setCancellingOrderId(null);
         fetchOrders(); // Refresh orders
       } else {
         showToast('Failed to update order status', 'error');
@@ -103,26 +153,17 @@ export default function OrdersPage() {
     } catch (error) {
       console.error('Error updating order status:', error);
       showToast('Error updating order status', 'error');
+    } finally {
+      setUpdatingOrderId(null);
     }
   };
 
-  const getNextStatuses = (currentStatus: string | number) => {
-    const statusString = String(currentStatus).toLowerCase();
-    switch (statusString) {
-      case 'pending':
-      case '0':
-        return [{ value: 'Paid', label: 'Mark as Paid' }];
-      case 'paid':
-      case '1':
-        return [{ value: 'Shipped', label: 'Mark as Shipped' }];
-      case 'shipped':
-      case '2':
-        return [{ value: 'Delivered', label: 'Mark as Delivered' }];
-      case 'delivered':
-      case '3':
-        return [{ value: 'Cancelled', label: 'Cancel Order' }];
-      default:
-        return [];
+  // Transitions that need a reason ask for it first
+  const handleTransition = (order: Order, transition: OrderTransition) => {
+    if (transition.requiresReason) {
+      setCancellingOrderId(order.id);
+    } else {
+      updateOrderStatus(order, transition);
     }
   };
 
@@ -143,50 +184,11 @@ export default function OrdersPage() {
     });
   };
 
-  const getStatusText = (status: string | number) => {
-    const statusString = String(status).toLowerCase();
-    switch (statusString) {
-      case 'pending':
-      case '0':
-        return 'Pending';
-      case 'paid':
-      case '1':
-        return 'Paid';
-      case 'shipped':
-      case '2':
-        return 'Shipped';
-      case 'delivered':
-      case '3':
-        return 'Delivered';
-      case 'cancelled':
-      case '4':
-        return 'Cancelled';
-      default:
-        return 'Unknown';
-    }
-  };
+  const getStatusText = (status: string | number) => parseOrderStatus(status) ?? 'Unknown';
 
   const getStatusColor = (status: string | number) => {
-    const statusString = String(status).toLowerCase();
-    switch (statusString) {
-      case 'pending':
-      case '0':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'paid':
-      case '1':
-        return 'bg-green-100 text-green-800';
-      case 'shipped':
-      case '2':
-        return 'bg-blue-100 text-blue-800';
-      case 'delivered':
-      case '3':
-        return 'bg-purple-100 text-purple-800';
-      case 'cancelled':
-      case '4':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
+    const parsed = parseOrderStatus(status);
+    return parsed ? ORDER_STATUS_COLORS[parsed] : 'bg-gray-100 text-gray-800';
   };
 
   if (authLoading || !isAuthenticated) {
@@ -280,6 +282,11 @@ export default function OrdersPage() {
                           <div className="flex-1">
                             <h4 className="font-medium text-gray-900">
                               {item.productName}
+                              {(item.size || item.color) && (
+                                <span className="ml-2 text-sm font-normal text-gray-500">
+                                  {[item.size, item.color].filter(Boolean).join(' / ')}
+                                </span>
+                              )}
                             </h4>
                             <p className="text-sm text-gray-600 mt-1">
                               {item.productDescription}
@@ -297,12 +304,66 @@ export default function OrdersPage() {
                             <p className="font-medium text-gray-900">
                               {formatPrice(item.price * item.quantity)}
                             </p>
+                            {order.tax && (
+                              <LineTax
+                                tax={getLineTax(order.tax, item.productId, item.variantId)}
+                                name={order.tax.name}
+                                inclusive={order.tax.inclusive}
+                              />
+                            )}
                           </div>
                         </div>
                       ))}
                     </div>
+
+                    {order.tax && (
+                      <div className="mt-4 pt-3 border-t border-gray-100 sm:ml-auto sm:w-72">
+                        <TaxSummary breakdown={order.tax} />
+                      </div>
+                    )}
                   </div>
 
+                  {/* Delivery */}
+                  {order.shippingAddress && (
+                    <div className="px-6 py-4 border-t border-gray-200 text-sm">
+                      <p className="font-medium text-gray-900 mb-1">
+                        Ship to
+                        {order.shippingMethod && (
+                          <span className="ml-2 font-normal text-gray-500">
+                            via {getShippingMethod(order.shippingMethod)?.name ?? order.shippingMethod}
+                            {order.shippingCost !== undefined && (
+                              <> · {order.shippingCost === 0 ? 'Free' : formatPrice(order.shippingCost)}</>
+                            )}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-gray-600">
+                        {formatAddressLines(order.shippingAddress).join(', ')}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Returns */}
+                  {returns.some(r => r.orderId === order.id) && (
+                    <div className="px-6 py-4 border-t border-gray-200 text-sm">
+                      <p className="font-medium text-gray-900 mb-2">Returns</p>
+                      <ul className="space-y-1">
+                        {returns.filter(r => r.orderId === order.id).map((productReturn) => (
+                          <li key={productReturn.id} className="flex items-center space-x-3">
+                            <Link href={`/returns/${productReturn.id}`} className="text-blue-600 hover:text-blue-800">
+                              {productReturn.rmaNumber}
+                            </Link>
+                            <span className="text-gray-600">
+                              {productReturn.items.reduce((total, item) => total + item.quantity, 0)} item(s) ·{' '}
+                              {productReturn.resolution === 'refund' ? 'Refund' : 'Exchange'}
+                            </span>
+                            <ReturnStatusBadge status={productReturn.status} resolution={productReturn.resolution} />
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Order Footer */}
                   <div className="bg-gray-50 px-6 py-4 border-t border-gray-200">
                     <div className="flex items-center justify-between">
@@ -315,7 +376,7 @@ export default function OrdersPage() {
                         )}
                       </div>
                       <div className="flex items-center space-x-2">
-                        {(String(order.status).toLowerCase() === 'pending' || order.status === 0) && (
+                        {parseOrderStatus(order.status) === OrderStatus.Pending && (
                           <button
                             onClick={() => router.push(`/checkout?orderId=${order.id}`)}
                             className="text-sm bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700"
@@ -324,25 +385,54 @@ export default function OrdersPage() {
                           </button>
                         )}
                         
-                        {/* Status update buttons */}
-                        {getNextStatuses(order.status).map((statusOption) => (
+                        {parseOrderStatus(order.status) === OrderStatus.Delivered && (
+                          <Link
+                            href={`/returns/new?orderId=${order.id}`}
+                            className="text-sm bg-gray-100 text-gray-700 px-3 py-1 rounded-md hover:bg-gray-200"
+                          >
+                            Return Items
+                          </Link>
+                        )}
+
+                        {/* Only the changes this user's role may make */}
+                        {getAllowedTransitions(order.status, user?.role ?? 'customer').map((transition) => (
                           <button
-                            key={statusOption.value}
-                            onClick={() => updateOrderStatus(order.id, statusOption.value)}
-                            className="text-sm bg-green-600 text-white px-3 py-1 rounded-md hover:bg-green-700"
+                            key={transition.to}
+                            onClick={() => handleTransition(order, transition)}
+                            disabled={updatingOrderId === order.id}
+                            className={`text-sm text-white px-3 py-1 rounded-md disabled:opacity-50 ${
+                              transition.to === OrderStatus.Cancelled
+                                ? 'bg-red-600 hover:bg-red-700'
+                                : 'bg-green-600 hover:bg-green-700'
+                            }`}
                           >
-                            {statusOption.label}
+                            {transition.label}
                           </button>
                         ))}
                         
-                        <button
-                          onClick={() => router.push(`/orders/${order.id}`)}
+                        <Link
+                          href={`/orders/${order.id}`}
                           className="text-sm text-blue-600 hover:text-blue-800"
                         >
                           View Details
-                        </button>
+                        </Link>
                       </div>
                     </div>
+
+                    {cancellingOrderId === order.id && (
+                      <div className="mt-4 pt-4 border-t border-gray-200 sm:ml-auto sm:w-96">
+                        <CancelReasonForm
+                          reasons={CANCEL_REASONS}
+                          isSubmitting={updatingOrderId === order.id}
+                          onClose={() => setCancellingOrderId(null)}
+                          onSubmit={(reason) => {
+                            const transition = getAllowedTransitions(order.status, user?.role ?? 'customer')
+                              .find(t => t.to === OrderStatus.Cancelled);
+                            if (transition) updateOrderStatus(order, transition, reason);
+                          }}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -1,22 +1,140 @@
 'use client';
 
-import { useEffect, useState, Suspense } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useRef, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Header from '../components/Header/Header';
+import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../contexts/CartContext';
+import { getStripe } from '../lib/payments/stripe';
+import { reconcilePaidOrder } from '../lib/payments/reconcile';
+
+type PaymentOutcome = 'succeeded' | 'processing' | 'failed' | 'unknown';
+
+interface Order {
+  id: number;
+  stripePaymentIntentId?: string;
+}
+
+// Map a Stripe PaymentIntent status onto what the shopper needs to know
+const getOutcome = (status: string): PaymentOutcome => {
+  switch (status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'processing':
+      return 'processing';
+    case 'requires_payment_method':
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'unknown';
+  }
+};
+
+const OUTCOME_CONTENT: Record<PaymentOutcome, { title: string; message: string; iconClassName: string; iconPath: string }> = {
+  succeeded: {
+    title: 'Payment Successful!',
+    message: 'Thank you for your purchase. Your order has been confirmed and will be processed shortly.',
+    iconClassName: 'bg-green-100 text-green-600',
+    iconPath: 'M5 13l4 4L19 7',
+  },
+  processing: {
+    title: 'Payment Processing',
+    message: 'Your payment is being processed. We\'ll update your order as soon as it is confirmed.',
+    iconClassName: 'bg-amber-100 text-amber-600',
+    iconPath: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
+  failed: {
+    title: 'Payment Failed',
+    message: 'Your payment was not completed and you have not been charged. Please try again with another payment method.',
+    iconClassName: 'bg-red-100 text-red-600',
+    iconPath: 'M6 18L18 6M6 6l12 12',
+  },
+  unknown: {
+    title: 'Payment Status Unavailable',
+    message: 'We couldn\'t confirm the status of your payment. Check your orders page for the latest status.',
+    iconClassName: 'bg-gray-100 text-gray-600',
+    iconPath: 'M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
+};
 
 function PaymentSuccessContent() {
   const [isLoading, setIsLoading] = useState(true);
-  const router = useRouter();
-  
+  const [outcome, setOutcome] = useState<PaymentOutcome>('unknown');
+  // The id of the PaymentIntent Stripe returned for the client secret, once verified
+  const [verifiedIntentId, setVerifiedIntentId] = useState<string | null>(null);
+  // The order that payment intent was created for
+  const [orderId, setOrderId] = useState<number | null>(null);
+  const searchParams = useSearchParams();
+  const { token } = useAuth();
+  const { clearCart, fetchCart } = useCart();
+
+  const clientSecret = searchParams.get('payment_intent_client_secret');
+  const redirectStatus = searchParams.get('redirect_status');
+  const orderIdParam = searchParams.get('orderId');
+
+  // Confirm the payment with Stripe rather than trusting the redirect
   useEffect(() => {
-    // Simulate a brief loading period
-    const timer = setTimeout(() => {
+    if (!clientSecret) {
+      setOutcome(redirectStatus === 'failed' ? 'failed' : 'unknown');
       setIsLoading(false);
-    }, 1000);
+      return;
+    }
+
+    const verifyPayment = async () => {
+      try {
+        const stripe = await getStripe();
+        const result = await stripe?.retrievePaymentIntent(clientSecret);
+        if (result?.paymentIntent) {
+          setOutcome(getOutcome(result.paymentIntent.status));
+          setVerifiedIntentId(result.paymentIntent.id);
+        } else {
+          setOutcome(redirectStatus === 'failed' ? 'failed' : 'unknown');
+        }
+      } catch (error) {
+        console.error('Error verifying payment:', error);
+        setOutcome('unknown');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    verifyPayment();
+  }, [clientSecret, redirectStatus]);
+
+  // Find the order by the verified payment intent. The `orderId` on the return URL is only a
+  // label: anyone can edit it, so it never decides which order is marked paid.
+  useEffect(() => {
+    if (!verifiedIntentId || !token) return;
+
+    const findOrder = async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (response.ok) {
+          const orders: Order[] = await response.json();
+          const match = orders.find(o => o.stripePaymentIntentId === verifiedIntentId);
+          if (match) setOrderId(match.id);
+        }
+      } catch (error) {
+        console.error('Error fetching orders:', error);
+      }
+    };
 
-    return () => clearTimeout(timer);
-  }, []);
+    findOrder();
+  }, [verifiedIntentId, token]);
+
+  // Mark the order paid and empty the cart once Stripe confirms the payment
+  const hasReconciled = useRef(false);
+  useEffect(() => {
+    if (outcome !== 'succeeded' || orderId === null || !verifiedIntentId || !token || hasReconciled.current) return;
+    hasReconciled.current = true;
+    reconcilePaidOrder({ orderId, paymentIntentId: verifiedIntentId, token, clearCart, fetchCart });
+  }, [outcome, orderId, verifiedIntentId, token, clearCart, fetchCart]);
 
   if (isLoading) {
     return (
@@ -32,36 +150,57 @@ function PaymentSuccessContent() {
     );
   }
 
+  const content = OUTCOME_CONTENT[outcome];
+  const labelOrderId = orderId ?? (orderIdParam && !isNaN(parseInt(orderIdParam)) ? parseInt(orderIdParam) : null);
+
   return (
     <>
       <Header />
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center px-4">
         <div className="max-w-md w-full">
           <div className="bg-white rounded-lg shadow-lg p-8 text-center">
-            {/* Success Icon */}
-            <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100 mb-6">
-              <svg className="h-8 w-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path>
+            {/* Status Icon */}
+            <div className={`mx-auto flex items-center justify-center h-16 w-16 rounded-full mb-6 ${content.iconClassName}`}>
+              <svg className="h-8 w-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={content.iconPath}></path>
               </svg>
             </div>
 
-            {/* Success Message */}
+            {/* Status Message */}
             <h1 className="text-2xl font-bold text-gray-900 mb-4">
-              Payment Successful!
+              {content.title}
             </h1>
+            {labelOrderId !== null && (
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                Order #{labelOrderId}
+              </p>
+            )}
             <p className="text-gray-600 mb-6">
-              Thank you for your purchase. Your order has been confirmed and will be processed shortly.
+              {content.message}
             </p>
 
             {/* Action Buttons */}
             <div className="space-y-3">
+              {outcome === 'failed' && labelOrderId !== null && (
+                <Link
+                  href={`/checkout?orderId=${labelOrderId}`}
+                  className="w-full bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700 transition-colors inline-block"
+                >
+                  Try Again
+                </Link>
+              )}
+
               <Link
                 href="/orders"
-                className="w-full bg-blue-600 text-white py-3 px-4 rounded-md font-medium hover:bg-blue-700 transition-colors inline-block"
+                className={`w-full py-3 px-4 rounded-md font-medium transition-colors inline-block ${
+                  outcome === 'failed' && labelOrderId !== null
+                    ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
               >
                 View My Orders
               </Link>
-              
+
               <Link
                 href="/"
                 className="w-full bg-gray-100 text-gray-700 py-3 px-4 rounded-md font-medium hover:bg-gray-200 transition-colors inline-block"
@@ -71,11 +210,13 @@ function PaymentSuccessContent() {
             </div>
 
             {/* Additional Info */}
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <p className="text-sm text-gray-500">
-                You will receive an email confirmation shortly with your order details.
-              </p>
-            </div>
+            {outcome === 'succeeded' && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <p className="text-sm text-gray-500">
+                  You will receive an email confirmation shortly with your order details.
+                </p>
+              </div>
+            )}
           </div>
         </div>
       </div>
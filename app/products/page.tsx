@@ -0,0 +1,10 @@
+import ProductCatalog from '../components/Product/ProductCatalog';
+
+export default function ProductsPage() {
+  return (
+    <ProductCatalog
+      title="All Products"
+      subtitle="Browse everything in the store"
+    />
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '../contexts/AuthContext';
 import Toast from '../components/UI/Toast';
+import { getRedirectPath } from '../lib/auth/redirect';
 
 export default function RegisterPage() {
   const [formData, setFormData] = useState({
@@ -49,7 +50,7 @@ export default function RegisterPage() {
       if (result.success) {
         showToast('Account created successfully!', 'success');
         setTimeout(() => {
-          router.push('/');
+          router.push(getRedirectPath(window.location.search));
         }, 1000);
       } else {
         showToast(result.error || 'Registration failed. Please try again.', 'error');
@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '../../contexts/AuthContext';
+import Header from '../../components/Header/Header';
+import ReturnLabel from '../../components/Returns/ReturnLabel';
+import ReturnProgress from '../../components/Returns/ReturnProgress';
+import ReturnStatusBadge from '../../components/Returns/ReturnStatusBadge';
+import type { ReturnRecord } from '../../lib/db/store';
+
+// One return with its progress and the printable return label. Printing the page
+// prints only the label.
+export default function ReturnDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const returnId = parseInt(id);
+  const [productReturn, setProductReturn] = useState<ReturnRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { isAuthenticated, token, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(`/login?redirect=${encodeURIComponent(`/returns/${id}`)}`);
+    }
+  }, [isAuthenticated, authLoading, router, id]);
+
+  const fetchReturn = useCallback(async () => {
+    if (!token || isNaN(returnId)) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns/${returnId}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        setProductReturn(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching return:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [returnId, token]);
+
+  useEffect(() => {
+    if (isAuthenticated) fetchReturn();
+  }, [isAuthenticated, fetchReturn]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (authLoading || !isAuthenticated || isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading return...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  if (!productReturn) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center px-4">
+          <div className="bg-white rounded-lg shadow-md p-8 text-center max-w-md w-full">
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">Return not found</h1>
+            <p className="text-sm text-gray-600 mb-6">
+              This return doesn&apos;t exist or belongs to another account.
+            </p>
+            <Link
+              href="/returns"
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 inline-block"
+            >
+              Back to Returns
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="print:hidden">
+        <Header />
+      </div>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 print:min-h-0 print:bg-none print:bg-white">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:p-0">
+          <div className="print:hidden">
+            <Link href="/returns" className="text-sm text-blue-600 hover:text-blue-800">
+              ← Back to Returns
+            </Link>
+
+            <div className="mt-4 mb-8 flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 mb-2">{productReturn.rmaNumber}</h1>
+                <p className="text-gray-600">
+                  Requested on {formatDate(productReturn.createdAt)} for{' '}
+                  <Link href={`/orders/${productReturn.orderId}`} className="text-blue-600 hover:text-blue-800">
+                    order #{productReturn.orderId}
+                  </Link>
+                </p>
+              </div>
+              <ReturnStatusBadge status={productReturn.status} resolution={productReturn.resolution} />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-5">
+              <ReturnProgress history={productReturn.history} resolution={productReturn.resolution} />
+
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Resolution</dt>
+                  <dd className="font-medium text-gray-900">
+                    {productReturn.resolution === 'refund'
+                      ? `Refund of ${formatPrice(productReturn.refundAmount)}`
+                      : 'Exchange for another size'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Reason</dt>
+                  <dd className="font-medium text-gray-900">{productReturn.reason}</dd>
+                </div>
+                {productReturn.comment && (
+                  <div className="sm:col-span-2">
+                    <dt className="text-gray-500">Your note</dt>
+                    <dd className="text-gray-900">{productReturn.comment}</dd>
+                  </div>
+                )}
+              </dl>
+            </div>
+
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-sm text-gray-600">
+                Print this label, attach it to the parcel and drop it off with any carrier.
+              </p>
+              <button
+                onClick={() => window.print()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+              >
+                Print Label
+              </button>
+            </div>
+          </div>
+
+          <ReturnLabel productReturn={productReturn} />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,479 @@
+'use client';
+
+import { useCallback, useEffect, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useAuth } from '../../contexts/AuthContext';
+import Header from '../../components/Header/Header';
+import type { ShippingAddress } from '../../lib/checkout/address';
+import type { ReturnRecord } from '../../lib/db/store';
+import { OrderStatus, parseOrderStatus } from '../../lib/orders/status';
+import type { ReturnResolution } from '../../lib/returns/status';
+
+interface OrderItem {
+  id: number;
+  productId: number;
+  variantId?: number;
+  size?: string;
+  color?: string;
+  productName: string;
+  productImage?: string;
+  quantity: number;
+  price: number;
+}
+
+interface Order {
+  id: number;
+  status: string | number;
+  items: OrderItem[];
+  shippingAddress?: ShippingAddress;
+}
+
+interface ProductVariant {
+  id: number;
+  size?: string;
+  color?: string;
+  stock?: number;
+}
+
+interface Product {
+  id: number;
+  variants?: ProductVariant[];
+}
+
+// An order line picked for return
+interface SelectedItem {
+  quantity: number;
+  exchangeVariantId?: number;
+}
+
+const RETURN_REASONS = [
+  'Doesn\'t fit',
+  'Not as described',
+  'Arrived damaged or faulty',
+  'Received the wrong item',
+  'Changed my mind',
+];
+
+function NewReturnContent() {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [previousReturns, setPreviousReturns] = useState<ReturnRecord[]>([]);
+  const [products, setProducts] = useState<Record<number, Product>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Record<number, SelectedItem>>({});
+  const [resolution, setResolution] = useState<ReturnResolution>('refund');
+  const [reason, setReason] = useState('');
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const { isAuthenticated, token, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const orderIdParam = searchParams.get('orderId') ?? '';
+  const orderId = parseInt(orderIdParam);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push(`/login?redirect=${encodeURIComponent(`/returns/new?orderId=${orderIdParam}`)}`);
+    }
+  }, [isAuthenticated, authLoading, router, orderIdParam]);
+
+  const fetchOrder = useCallback(async () => {
+    if (!token || isNaN(orderId)) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [orderResponse, returnsResponse] = await Promise.all([
+        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Order/${orderId}`, { headers }),
+        fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns?orderId=${orderId}`, { headers }),
+      ]);
+
+      if (!orderResponse.ok) return;
+      const data: Order = await orderResponse.json();
+      setOrder(data);
+      if (returnsResponse.ok) {
+        setPreviousReturns(await returnsResponse.json());
+      }
+
+      // Variants are needed to offer other sizes for an exchange
+      const productIds = [...new Set(data.items.map(item => item.productId))];
+      const results = await Promise.all(
+        productIds.map(async (id) => {
+          try {
+            const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${id}`);
+            return response.ok ? ((await response.json()) as Product) : null;
+          } catch (error) {
+            console.error('Error fetching product', id, error);
+            return null;
+          }
+        })
+      );
+      setProducts(Object.fromEntries(
+        results.filter((product): product is Product => product !== null).map(product => [product.id, product])
+      ));
+    } catch (error) {
+      console.error('Error fetching order:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId, token]);
+
+  useEffect(() => {
+    if (isAuthenticated) fetchOrder();
+  }, [isAuthenticated, fetchOrder]);
+
+  // What is left of a line once earlier returns are taken off
+  const getReturnableQuantity = (item: OrderItem) =>
+    item.quantity - previousReturns
+      .flatMap(r => r.items)
+      .filter(i => i.orderItemId === item.id)
+      .reduce((total, i) => total + i.quantity, 0);
+
+  // Other sizes of the same product in the same color that are still in stock
+  const getExchangeOptions = (item: OrderItem) =>
+    (products[item.productId]?.variants ?? []).filter(variant =>
+      variant.id !== item.variantId &&
+      variant.size &&
+      (!item.color || variant.color === item.color) &&
+      variant.stock !== 0
+    );
+
+  const toggleItem = (item: OrderItem) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (next[item.id]) {
+        delete next[item.id];
+      } else {
+        next[item.id] = { quantity: 1 };
+      }
+      return next;
+    });
+  };
+
+  const updateItem = (itemId: number, changes: Partial<SelectedItem>) => {
+    setSelected(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !token) return;
+
+    const lines = order.items.filter(item => selected[item.id]);
+    if (lines.length === 0) {
+      setError('Choose at least one item to return');
+      return;
+    }
+    if (resolution === 'exchange' && lines.some(item => !selected[item.id].exchangeVariantId)) {
+      setError('Choose the size you would like instead for each item');
+      return;
+    }
+    if (!reason) {
+      setError('Tell us why you are returning these items');
+      return;
+    }
+
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          orderId: order.id,
+          items: lines.map(item => ({
+            orderItemId: item.id,
+            quantity: selected[item.id].quantity,
+            exchangeVariantId: resolution === 'exchange' ? selected[item.id].exchangeVariantId : undefined,
+          })),
+          resolution,
+          reason,
+          comment,
+          fromAddress: order.shippingAddress,
+        }),
+      });
+
+      if (response.ok) {
+        const created: ReturnRecord = await response.json();
+        router.push(`/returns/${created.id}`);
+      } else {
+        const data = await response.json().catch(() => null);
+        setError(data?.error ?? 'Failed to request the return');
+      }
+    } catch (error) {
+      console.error('Error requesting return:', error);
+      setError('Error requesting the return');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  if (authLoading || !isAuthenticated || isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading order...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const isDelivered = order !== null && parseOrderStatus(order.status) === OrderStatus.Delivered;
+  const returnableItems = order?.items.filter(item => getReturnableQuantity(item) > 0) ?? [];
+
+  if (!order || !isDelivered || returnableItems.length === 0) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center px-4">
+          <div className="bg-white rounded-lg shadow-md p-8 text-center max-w-md w-full">
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">
+              {!order ? 'Order not found' : 'Nothing to return'}
+            </h1>
+            <p className="text-sm text-gray-600 mb-6">
+              {!order
+                ? 'This order doesn\'t exist or belongs to another account.'
+                : !isDelivered
+                  ? 'Items can be returned once the order has been delivered.'
+                  : 'Every item on this order is already on a return.'}
+            </p>
+            <Link
+              href={order ? `/orders/${order.id}` : '/orders'}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 inline-block"
+            >
+              {order ? 'Back to Order' : 'Back to My Orders'}
+            </Link>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  const refundAmount = order.items
+    .filter(item => selected[item.id])
+    .reduce((total, item) => total + item.price * selected[item.id].quantity, 0);
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Link href={`/orders/${order.id}`} className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Order #{order.id}
+          </Link>
+
+          <div className="mt-4 mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Return items</h1>
+            <p className="text-gray-600">Choose what you&apos;re sending back from order #{order.id}</p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Items */}
+            <div className="bg-white rounded-lg shadow-md">
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-xl font-semibold">Items</h2>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {returnableItems.map((item) => {
+                  const returnable = getReturnableQuantity(item);
+                  const selection = selected[item.id];
+                  const exchangeOptions = getExchangeOptions(item);
+
+                  return (
+                    <div key={item.id} className="p-6">
+                      <label className="flex items-start space-x-4 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selection !== undefined}
+                          onChange={() => toggleItem(item)}
+                          className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        {item.productImage && (
+                          <div className="relative w-16 h-16 flex-shrink-0">
+                            <Image
+                              src={item.productImage}
+                              alt={item.productName}
+                              fill
+                              className="object-cover rounded-md"
+                            />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900">{item.productName}</p>
+                          {(item.size || item.color) && (
+                            <p className="text-sm text-gray-500">
+                              {[item.size && `Size: ${item.size}`, item.color && `Color: ${item.color}`].filter(Boolean).join(' · ')}
+                            </p>
+                          )}
+                          <p className="text-sm text-gray-600 mt-1">
+                            {formatPrice(item.price)} each · {returnable} returnable
+                          </p>
+                        </div>
+                      </label>
+
+                      {selection && (
+                        <div className="mt-4 ml-8 flex flex-wrap items-center gap-4 text-sm">
+                          <label className="flex items-center space-x-2">
+                            <span className="text-gray-700">Quantity</span>
+                            <select
+                              value={selection.quantity}
+                              onChange={(e) => updateItem(item.id, { quantity: parseInt(e.target.value) })}
+                              className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {Array.from({ length: returnable }, (_, i) => i + 1).map((quantity) => (
+                                <option key={quantity} value={quantity}>{quantity}</option>
+                              ))}
+                            </select>
+                          </label>
+
+                          {resolution === 'exchange' && (
+                            exchangeOptions.length > 0 ? (
+                              <label className="flex items-center space-x-2">
+                                <span className="text-gray-700">Exchange for</span>
+                                <select
+                                  value={selection.exchangeVariantId ?? ''}
+                                  onChange={(e) => updateItem(item.id, {
+                                    exchangeVariantId: e.target.value ? parseInt(e.target.value) : undefined,
+                                  })}
+                                  className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                  <option value="">Choose a size…</option>
+                                  {exchangeOptions.map((variant) => (
+                                    <option key={variant.id} value={variant.id}>{variant.size}</option>
+                                  ))}
+                                </select>
+                              </label>
+                            ) : (
+                              <span className="text-amber-700">No other sizes are available for an exchange</span>
+                            )
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Resolution and reason */}
+            <div className="bg-white rounded-lg shadow-md p-6 space-y-5">
+              <div>
+                <h2 className="text-lg font-semibold mb-3">What would you like?</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {([
+                    ['refund', 'Refund', 'Money back to your original payment method'],
+                    ['exchange', 'Exchange', 'The same item in another size'],
+                  ] as const).map(([value, label, description]) => (
+                    <label
+                      key={value}
+                      className={`flex items-start space-x-3 p-4 border rounded-md cursor-pointer ${
+                        resolution === value ? 'border-blue-600 bg-blue-50' : 'border-gray-300'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="resolution"
+                        value={value}
+                        checked={resolution === value}
+                        onChange={() => setResolution(value)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block font-medium text-gray-900">{label}</span>
+                        <span className="block text-sm text-gray-600">{description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason for return *
+                </label>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Choose a reason…</option>
+                  {RETURN_REASONS.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Anything else we should know?
+                </label>
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                {resolution === 'refund'
+                  ? <>Refund: <span className="font-semibold text-gray-900">{formatPrice(refundAmount)}</span></>
+                  : 'Exchanges are sent once we receive your return'}
+              </p>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-blue-600 text-white px-6 py-2 rounded-md font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Requesting...' : 'Request Return'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default function NewReturnPage() {
+  return (
+    <Suspense fallback={
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading...</p>
+          </div>
+        </div>
+      </>
+    }>
+      <NewReturnContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '../contexts/AuthContext';
+import Header from '../components/Header/Header';
+import ReturnProgress from '../components/Returns/ReturnProgress';
+import ReturnStatusBadge from '../components/Returns/ReturnStatusBadge';
+import type { ReturnRecord } from '../lib/db/store';
+
+export default function ReturnsPage() {
+  const [returns, setReturns] = useState<ReturnRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { isAuthenticated, token, isLoading: authLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login?redirect=/returns');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchReturns = async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Returns`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+
+        if (response.ok) {
+          setReturns(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching returns:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReturns();
+  }, [token]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(price);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading...</p>
+          </div>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Returns &amp; Exchanges</h1>
+            <p className="text-gray-600">
+              Items from a delivered order can be sent back for a refund or swapped for another size.
+              Start a return from the order on your{' '}
+              <Link href="/orders" className="text-blue-600 hover:text-blue-800">orders page</Link>.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading returns...</p>
+            </div>
+          ) : returns.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <h3 className="text-xl font-medium text-gray-500 mb-2">No returns yet</h3>
+              <p className="text-sm text-gray-500">Returns you request will show up here with their status</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {returns.map((productReturn) => (
+                <div key={productReturn.id} className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{productReturn.rmaNumber}</h3>
+                      <p className="text-sm text-gray-600">
+                        Requested on {formatDate(productReturn.createdAt)} for{' '}
+                        <Link href={`/orders/${productReturn.orderId}`} className="text-blue-600 hover:text-blue-800">
+                          order #{productReturn.orderId}
+                        </Link>
+                      </p>
+                    </div>
+                    <ReturnStatusBadge status={productReturn.status} resolution={productReturn.resolution} />
+                  </div>
+
+                  <div className="px-6 py-4 space-y-4">
+                    <ul className="text-sm space-y-1">
+                      {productReturn.items.map((item) => (
+                        <li key={item.orderItemId} className="text-gray-900">
+                          {item.quantity} × {item.productName}
+                          {item.size && <span className="text-gray-500"> ({item.size})</span>}
+                          {item.exchangeSize && (
+                            <span className="text-gray-500"> → {item.exchangeSize}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    <ReturnProgress history={productReturn.history} resolution={productReturn.resolution} />
+                  </div>
+
+                  <div className="bg-gray-50 px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      {productReturn.resolution === 'refund'
+                        ? `Refund of ${formatPrice(productReturn.refundAmount)}`
+                        : 'Size exchange'}
+                    </span>
+                    <Link href={`/returns/${productReturn.id}`} className="text-blue-600 hover:text-blue-800">
+                      View &amp; Print Label
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,11 @@
+import ProductCatalog from '../components/Product/ProductCatalog';
+
+export default function SalePage() {
+  return (
+    <ProductCatalog
+      title="Sale"
+      subtitle="Limited-time markdowns across the store"
+      onSale
+    />
+  );
+}
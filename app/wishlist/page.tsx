@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useCart } from '../contexts/CartContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import Toast from '../components/UI/Toast';
+import Header from '../components/Header/Header';
+import ProductCard from '../components/Product/ProductCard';
+import ProductModal from '../components/Product/ProductModal';
+import { getAvailableStock } from '../lib/products/stock';
+
+interface ProductVariant {
+  id: number;
+  sku: string;
+  size?: string;
+  color?: string;
+  price?: number;
+  image?: string;
+  stock?: number;
+}
+
+interface Product {
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  salePrice?: number;
+  saleStartsAt?: string;
+  saleEndsAt?: string;
+  image?: string;
+  stock?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  variants?: ProductVariant[];
+}
+
+export default function WishlistPage() {
+  const [toast, setToast] = useState({ isVisible: false, message: '', type: 'success' as 'success' | 'error' });
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loadingProducts, setLoadingProducts] = useState(true);
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const { items, isLoading, removeFromWishlist } = useWishlist();
+  const { cart, addToCart } = useCart();
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ isVisible: true, message, type });
+  };
+
+  const closeToast = () => {
+    setToast({ ...toast, isVisible: false });
+  };
+
+  // Load the catalog entries for the wishlisted products, newest first
+  const productIdsKey = items
+    .slice()
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt))
+    .map(item => item.productId)
+    .join(',');
+
+  useEffect(() => {
+    if (!productIdsKey) {
+      setProducts([]);
+      setLoadingProducts(false);
+      return;
+    }
+
+    const loadProducts = async () => {
+      setLoadingProducts(true);
+      const results = await Promise.all(
+        productIdsKey.split(',').map(async (id) => {
+          try {
+            const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE}/api/Product/${id}`);
+            return response.ok ? ((await response.json()) as Product) : null;
+          } catch (error) {
+            console.error('Error fetching product', id, error);
+            return null;
+          }
+        })
+      );
+      setProducts(results.filter((product): product is Product => product !== null));
+      setLoadingProducts(false);
+    };
+
+    loadProducts();
+  }, [productIdsKey]);
+
+  // Add the product to the cart, then take it off the wishlist
+  const handleMoveToCart = async (productId: number, variantId?: number) => {
+    const product = products.find(p => p.id === productId);
+    const available = product ? getAvailableStock(product, variantId) : undefined;
+    if (available !== undefined) {
+      const inCart = cart?.items
+        .filter(item => item.productId === productId && item.variantId === variantId)
+        .reduce((total, item) => total + item.quantity, 0) ?? 0;
+
+      if (inCart + 1 > available) {
+        showToast(available === 0 ? 'This item is out of stock' : `Only ${available} in stock`, 'error');
+        return;
+      }
+    }
+
+    const added = await addToCart({ productId, variantId }, 1);
+    if (!added) {
+      showToast('Failed to add product to cart', 'error');
+      return;
+    }
+
+    await removeFromWishlist(productId);
+    showToast('Moved to cart', 'success');
+  };
+
+  const isEmpty = !isLoading && !loadingProducts && products.length === 0;
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Wishlist
+            </h1>
+            <p className="text-gray-600">
+              {items.length} saved {items.length === 1 ? 'product' : 'products'}
+            </p>
+          </div>
+
+          {isEmpty ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <div className="text-gray-500 mb-6">
+                <svg className="h-16 w-16 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                </svg>
+                <h3 className="text-xl font-medium mb-2">Your wishlist is empty</h3>
+                <p className="text-sm">Tap the heart on any product to save it here</p>
+              </div>
+              <Link
+                href="/"
+                className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 inline-block"
+              >
+                Continue Shopping
+              </Link>
+            </div>
+          ) : isLoading || (loadingProducts && products.length === 0) ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading wishlist...</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {products.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  product={product}
+                  onSelect={() => setSelectedProduct(product)}
+                  onAddToCart={() => handleMoveToCart(product.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ProductModal
+        product={selectedProduct}
+        isOpen={selectedProduct !== null}
+        onClose={() => setSelectedProduct(null)}
+        onAddToCart={handleMoveToCart}
+        isAdmin={false}
+      />
+
+      <Toast
+        message={toast.message}
+        type={toast.type}
+        isVisible={toast.isVisible}
+        onClose={closeToast}
+      />
+    </>
+  );
+}
@@ -0,0 +1,12 @@
+import { getStorePath, readStore } from '../app/lib/db/store';
+
+// Loading the store runs any pending migrations and writes the result back
+const main = async () => {
+  const data = await readStore();
+  console.log(`Store at ${getStorePath()} is at schema version ${data.version}`);
+};
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
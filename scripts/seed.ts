@@ -0,0 +1,66 @@
+import { getStorePath, mutateStore, nextId, type StoreData } from '../app/lib/db/store';
+import { categorySeeds, productSeeds, promotionSeeds } from '../app/lib/db/seeds';
+
+// Usage: npm run db:seed [-- --reset]
+// Without --reset, seeding is skipped when the catalog already has products.
+const reset = process.argv.includes('--reset');
+
+const insertCategories = (data: StoreData, seeds: typeof categorySeeds, now: string, parentId?: number) => {
+  for (const { children, ...seed } of seeds) {
+    const id = nextId(data, 'categories');
+    data.categories.push({ id, ...seed, parentId, createdAt: now, updatedAt: now });
+    insertCategories(data, children ?? [], now, id);
+  }
+};
+
+const main = async () => {
+  const inserted = await mutateStore((data) => {
+    if (data.products.length > 0 && !reset) return 0;
+
+    const now = new Date().toISOString();
+    data.products = [];
+    data.categories = [];
+    data.sequences.products = 0;
+    data.sequences.variants = 0;
+    data.sequences.categories = 0;
+
+    insertCategories(data, categorySeeds, now);
+    const categoryId = (slug: string) => data.categories.find(c => c.slug === slug)!.id;
+
+    for (const { variants, categories, ...seed } of productSeeds) {
+      data.products.push({
+        id: nextId(data, 'products'),
+        ...seed,
+        categoryIds: categories.map(categoryId),
+        variants: variants.map(variant => ({ id: nextId(data, 'variants'), ...variant })),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    if (data.promotions.length === 0) {
+      for (const seed of promotionSeeds) {
+        data.promotions.push({
+          id: nextId(data, 'promotions'),
+          ...seed,
+          redemptions: [],
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    }
+
+    return data.products.length;
+  });
+
+  if (inserted === 0) {
+    console.log('Catalog already has products; pass --reset to replace them');
+  } else {
+    console.log(`Seeded ${inserted} products into ${getStorePath()}`);
+  }
+};
+
+main().catch((error) => {
+  console.error('Seeding failed:', error);
+  process.exit(1);
+});